@@ -1,27 +1,83 @@
-import { Suspense, useState, useRef, useCallback, useEffect } from 'react'
-import { Canvas, useThree } from '@react-three/fiber'
+import { Suspense, useState, useRef, useCallback, useEffect, useMemo } from 'react'
+import { Canvas, useFrame, useThree } from '@react-three/fiber'
 import { OrbitControls, Grid } from '@react-three/drei'
 import * as THREE from 'three'
 import { projects, type ProjectParams } from './projects'
 import ParameterPanel from './components/ParameterPanel'
 import SelectionPanel from './components/SelectionPanel'
-import { downloadSTL, downloadGLB } from './lib/export'
+import { downloadSTL, downloadGLB, mergeParts } from './lib/export'
 import { cn } from './lib/utils'
-import { Orbit } from 'lucide-react'
-import type { ProjectHandle, PartOverrides } from './types'
-import { convertParams, type UnitSystem } from './lib/units'
+import { Orbit, Loader2, History, TriangleAlert, LayoutGrid, Columns2, ScanSearch, Scale, Weight } from 'lucide-react'
+import type { ProjectHandle, PartOverrides, PartState, LightingMode, CameraPose } from './types'
+import { convertParams, type InchFraction, type UnitSystem } from './lib/units'
+import { useGeometryBusy } from './hooks/useGeometryJob'
+import { downloadDesignFile, parseDesignFile, readDesign, type DesignState } from './lib/design-file'
+import { listSnapshots, type SessionSnapshot } from './lib/session-store'
+import { useSessionAutosave } from './hooks/useSessionAutosave'
+import SessionRestoreDialog from './components/SessionRestoreDialog'
+import HistoryPanel from './components/HistoryPanel'
+import DesignTableDialog from './components/DesignTableDialog'
+import ExplorerDialog from './components/ExplorerDialog'
+import MeshCheckDialog from './components/MeshCheckDialog'
+import ComparePanel from './components/ComparePanel'
+import PrintabilityPanel from './components/PrintabilityPanel'
+import PrintabilityOverlay from './components/PrintabilityOverlay'
+import StatsPanel from './components/StatsPanel'
+import StabilityPanel from './components/StabilityPanel'
+import StabilityOverlay from './components/StabilityOverlay'
+import { analyzePrintability, checkParamPrintability, DEFAULT_PRINT_SETTINGS, type PrintAnalysis, type PrintSettings } from './lib/printability'
+import { measureObject } from './lib/mesh-stats'
+import { DEFAULT_ESTIMATE_SETTINGS, type EstimateSettings } from './lib/print-estimate'
+import { analyzeStability, DEFAULT_MIN_TIPPING_ANGLE, isStable, type StabilityAnalysis } from './lib/stability'
+import { useModelAnalysis } from './hooks/useModelAnalysis'
+import { useHistory } from './hooks/useHistory'
+import type { HistorySnapshot } from './lib/history'
+import { decodeUrlState } from './lib/url-state'
+import { collectExpressions, resolveExpressions, type ParamExpression } from './lib/expressions'
+import { useUrlStateSync } from './hooks/useUrlStateSync'
+
+/** Read and move the orbit camera from outside the Canvas */
+interface CameraPoseHandle {
+  getPose: () => CameraPose
+  setPose: (pose: CameraPose) => void
+}
 
 function CameraAPI({
   handleRef,
   controlsRef,
+  poseRef,
 }: {
   handleRef: React.MutableRefObject<ProjectHandle | null>
   controlsRef: React.MutableRefObject<any>
+  poseRef: React.MutableRefObject<CameraPoseHandle | null>
 }) {
   const camera = useThree((s) => s.camera)
   const gl = useThree((s) => s.gl)
   const scene = useThree((s) => s.scene)
 
+  useEffect(() => {
+    poseRef.current = {
+      getPose: () => {
+        const target: THREE.Vector3 = controlsRef.current?.target ?? new THREE.Vector3()
+        return {
+          position: [camera.position.x, camera.position.y, camera.position.z],
+          target: [target.x, target.y, target.z],
+        }
+      },
+      setPose: ({ position, target }) => {
+        camera.position.set(...position)
+        camera.lookAt(...target)
+        if (controlsRef.current) {
+          controlsRef.current.target.set(...target)
+          controlsRef.current.update()
+        }
+      },
+    }
+    return () => {
+      poseRef.current = null
+    }
+  }, [camera, controlsRef, poseRef])
+
   useEffect(() => {
     ;(window as any).__three3d = {
       setCameraView: (viewName: string) => {
@@ -112,8 +168,6 @@ function CameraAPI({
   return null
 }
 
-export type LightingMode = 'default' | 'edge' | 'studio' | 'dramatic'
-
 function Lighting({ mode }: { mode: LightingMode }) {
   switch (mode) {
     case 'edge':
@@ -152,22 +206,147 @@ function Lighting({ mode }: { mode: LightingMode }) {
   }
 }
 
+function FloorGrid() {
+  return (
+    <Grid
+      args={[200, 200]}
+      cellSize={10}
+      cellThickness={0.5}
+      cellColor="#6e6e6e"
+      sectionSize={50}
+      sectionThickness={1}
+      sectionColor="#9d4b4b"
+      fadeDistance={300}
+      infiniteGrid
+    />
+  )
+}
+
+/** Orbit controls for the split view's left half: it follows the main camera, and drags on it move both */
+function MirroredControls({ poseRef }: { poseRef: React.MutableRefObject<CameraPoseHandle | null> }) {
+  const camera = useThree((s) => s.camera)
+  const controlsRef = useRef<React.ElementRef<typeof OrbitControls>>(null)
+  const dragging = useRef(false)
+
+  useFrame(() => {
+    const controls = controlsRef.current
+    const pose = poseRef.current?.getPose()
+    if (dragging.current || !controls || !pose) return
+    camera.position.set(...pose.position)
+    controls.target.set(...pose.target)
+    controls.update()
+  })
+
+  return (
+    <OrbitControls
+      ref={controlsRef}
+      makeDefault
+      enableDamping={false}
+      onStart={() => {
+        dragging.current = true
+      }}
+      onEnd={() => {
+        dragging.current = false
+      }}
+      onChange={() => {
+        const controls = controlsRef.current
+        if (!dragging.current || !controls) return
+        poseRef.current?.setPose({ position: camera.position.toArray(), target: controls.target.toArray() })
+      }}
+    />
+  )
+}
+
+const ignoreParamsChange = () => {}
+
+/** A design as the stability check saw it */
+interface StabilityDesign {
+  projectId: string
+  unit: UnitSystem
+  params: ProjectParams
+}
+
+/** Quiet time after an edit before the stability check measures the model */
+const STABILITY_DELAY_MS = 400
+
+/** The model's stability, paired with the design it was built from */
+function checkStability(group: THREE.Group, { design }: { design: StabilityDesign }) {
+  const analysis = analyzeStability(group)
+  return analysis && { analysis, design }
+}
+
+/** The split view's left half: the active project built from another param set */
+function CompareScene({
+  activeProjectId,
+  params,
+  handleRef,
+  poseRef,
+  partState,
+  lightingMode,
+}: {
+  activeProjectId: string
+  params: ProjectParams
+  handleRef: React.MutableRefObject<ProjectHandle | null>
+  poseRef: React.MutableRefObject<CameraPoseHandle | null>
+  partState?: PartState
+  lightingMode: LightingMode
+}) {
+  const activeProject = projects.find((p) => p.id === activeProjectId)
+
+  return (
+    <>
+      <Lighting mode={lightingMode} />
+      <FloorGrid />
+      <Suspense fallback={null}>
+        {activeProject && (
+          <activeProject.component
+            params={params}
+            onParamsChange={ignoreParamsChange}
+            handleRef={handleRef}
+            partState={partState}
+          />
+        )}
+      </Suspense>
+      <MirroredControls poseRef={poseRef} />
+    </>
+  )
+}
+
 function Scene({
   activeProjectId,
   params,
   onParamsChange,
   onSelectionChange,
   handleRef,
+  poseRef,
+  partState,
+  onPartStateChange,
   lightingMode,
   autoRotate,
+  initialTarget,
+  onCameraEnd,
+  onBuildError,
+  printAnalysis,
+  stability,
+  stable,
 }: {
   activeProjectId: string
   params: ProjectParams
   onParamsChange: (p: ProjectParams) => void
   onSelectionChange: (ids: Set<string>) => void
   handleRef: React.MutableRefObject<ProjectHandle | null>
+  poseRef: React.MutableRefObject<CameraPoseHandle | null>
+  partState?: PartState
+  onPartStateChange: (state: PartState) => void
   lightingMode: LightingMode
   autoRotate: boolean
+  /** Orbit target to start from, e.g. the view from a shared link */
+  initialTarget?: [number, number, number]
+  onCameraEnd: () => void
+  onBuildError: (error: string | null) => void
+  printAnalysis: PrintAnalysis | null
+  stability: StabilityAnalysis | null
+  stable: boolean
 }) {
   const activeProject = projects.find((p) => p.id === activeProjectId)
   const controlsRef = useRef<any>(null)
@@ -175,17 +354,7 @@ function Scene({
   return (
     <>
       <Lighting mode={lightingMode} />
-      <Grid
-        args={[200, 200]}
-        cellSize={10}
-        cellThickness={0.5}
-        cellColor="#6e6e6e"
-        sectionSize={50}
-        sectionThickness={1}
-        sectionColor="#9d4b4b"
-        fadeDistance={300}
-        infiniteGrid
-      />
+      <FloorGrid />
       <Suspense fallback={null}>
         {activeProject && (
           <activeProject.component
@@ -193,42 +362,147 @@ function Scene({
             onParamsChange={onParamsChange}
             onSelectionChange={onSelectionChange}
             handleRef={handleRef}
+            partState={partState}
+            onPartStateChange={onPartStateChange}
+            onBuildError={onBuildError}
           />
         )}
       </Suspense>
-      <CameraAPI handleRef={handleRef} controlsRef={controlsRef} />
-      <OrbitControls ref={controlsRef} makeDefault autoRotate={autoRotate} autoRotateSpeed={1.5} />
+      {printAnalysis && <PrintabilityOverlay analysis={printAnalysis} />}
+      {stability && <StabilityOverlay analysis={stability} stable={stable} />}
+      <CameraAPI handleRef={handleRef} controlsRef={controlsRef} poseRef={poseRef} />
+      <OrbitControls
+        ref={controlsRef}
+        makeDefault
+        autoRotate={autoRotate}
+        autoRotateSpeed={1.5}
+        target={initialTarget}
+        onEnd={onCameraEnd}
+      />
     </>
   )
 }
 
 function App() {
-  const [activeProjectId, setActiveProjectId] = useState(projects[0]?.id ?? '')
+  // A design shared through the URL hash takes precedence over defaults and autosaves
+  const [initialUrlState] = useState(() => decodeUrlState(window.location.hash))
+  const [activeProjectId, setActiveProjectId] = useState(initialUrlState?.activeProjectId ?? projects[0]?.id ?? '')
   const [paramsMap, setParamsMap] = useState<Record<string, ProjectParams>>(() => {
     const map: Record<string, ProjectParams> = {}
     for (const p of projects) {
-      map[p.id] = { ...p.defaultParams }
+      map[p.id] = initialUrlState
+        ? convertParams(p.defaultParams, p.paramDefs, 'mm', initialUrlState.unit)
+        : { ...p.defaultParams }
     }
+    if (initialUrlState) map[initialUrlState.activeProjectId] = initialUrlState.params
     return map
   })
-  const [unit, setUnit] = useState<UnitSystem>('mm')
+  const [unit, setUnit] = useState<UnitSystem>(initialUrlState?.unit ?? 'mm')
+  const [inchFraction, setInchFraction] = useState<InchFraction>('decimal')
+  const [snapToStep, setSnapToStep] = useState(false)
+  const [designTableOpen, setDesignTableOpen] = useState(false)
+  const [explorerOpen, setExplorerOpen] = useState(false)
+  const [meshCheckOpen, setMeshCheckOpen] = useState(false)
+  const [repairOnExport, setRepairOnExport] = useState(false)
+  const [mergeOnExport, setMergeOnExport] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+  // Split view: the params shown on the left, against the live design on the right
+  const [compareParams, setCompareParams] = useState<ProjectParams | null>(null)
+  const compareHandleRef = useRef<ProjectHandle | null>(null)
+  const getCompareGroup = useCallback(() => compareHandleRef.current?.getGroup() ?? null, [])
+  const getActiveGroup = useCallback(() => handleRef.current?.getGroup() ?? null, [])
+  const [printabilityOpen, setPrintabilityOpen] = useState(false)
+  const [printSettings, setPrintSettings] = useState<PrintSettings>(DEFAULT_PRINT_SETTINGS)
+  const [statsOpen, setStatsOpen] = useState(false)
+  const [estimateSettings, setEstimateSettings] = useState<EstimateSettings>(DEFAULT_ESTIMATE_SETTINGS)
+  const [stabilityOpen, setStabilityOpen] = useState(false)
+  const [minTippingAngle, setMinTippingAngle] = useState(DEFAULT_MIN_TIPPING_ANGLE)
+  // The last design that stood steady, to name the param changes that tipped it over
+  const [steadyDesign, setSteadyDesign] = useState<StabilityDesign | null>(null)
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const [lightingMode, setLightingMode] = useState<LightingMode>('default')
   const [autoRotate, setAutoRotate] = useState(false)
   const [projectsOpen, setProjectsOpen] = useState(false)
   const [partOverrides, setPartOverrides] = useState<Record<string, PartOverrides>>({})
+  // Part edits of projects that aren't mounted (switched away from, or loaded from a file)
+  const [partStates, setPartStates] = useState<Record<string, PartState>>({})
+  // Live part edits of the mounted project, reported back by its component
+  const [activePartState, setActivePartState] = useState<PartState | null>(null)
+  // Autosaved snapshots offered for restore on startup; autosave waits until the prompt is answered
+  const [restoreSnapshots, setRestoreSnapshots] = useState<SessionSnapshot[] | null>(null)
+  const [sessionReady, setSessionReady] = useState(false)
+  const [designError, setDesignError] = useState<string | null>(null)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [buildError, setBuildError] = useState<string | null>(null)
+  // Expressions the user typed into param fields, per project
+  const [userExpressions, setUserExpressions] = useState<Record<string, Record<string, ParamExpression>>>({})
   const handleRef = useRef<ProjectHandle | null>(null)
+  const poseRef = useRef<CameraPoseHandle | null>(null)
+  const geometryBusy = useGeometryBusy()
 
-  const activeParams = paramsMap[activeProjectId] ?? {}
+  const activeParams = useMemo(() => paramsMap[activeProjectId] ?? {}, [paramsMap, activeProjectId])
   const activeProject = projects.find((p) => p.id === activeProjectId)
+  const activeParamDefs = activeProject?.paramDefs
+  const activeUserExpressions = userExpressions[activeProjectId]
+  const activeExpressions = useMemo(
+    () => collectExpressions(activeParamDefs ?? [], activeUserExpressions),
+    [activeParamDefs, activeUserExpressions]
+  )
+  const resolved = useMemo(
+    () => resolveExpressions(activeParams, activeParamDefs ?? [], activeExpressions, unit),
+    [activeParams, activeParamDefs, activeExpressions, unit]
+  )
 
   const onParamsChange = useCallback(
     (newParams: ProjectParams) => {
-      setParamsMap((prev) => ({ ...prev, [activeProjectId]: newParams }))
+      // Derived params follow the ones they're computed from in the same update
+      const { params } = resolveExpressions(newParams, activeParamDefs ?? [], activeExpressions, unit)
+      setParamsMap((prev) => ({ ...prev, [activeProjectId]: params }))
     },
-    [activeProjectId]
+    [activeProjectId, activeParamDefs, activeExpressions, unit]
   )
 
+  // Catch up derived params after changes that bypass onParamsChange (new expressions, undo, loads)
+  const resolvedParams = resolved.params
+  useEffect(() => {
+    setParamsMap((prev) => {
+      const current = prev[activeProjectId]
+      if (!current || Object.keys(resolvedParams).every((k) => resolvedParams[k] === current[k])) return prev
+      return { ...prev, [activeProjectId]: resolvedParams }
+    })
+  }, [activeProjectId, resolvedParams])
+
+  const onExpressionChange = useCallback((key: string, source: string | null, value?: number) => {
+    setUserExpressions((prev) => {
+      const next = { ...prev[activeProjectId] }
+      if (source === null) delete next[key]
+      else next[key] = { source, unit }
+      return { ...prev, [activeProjectId]: next }
+    })
+    if (value !== undefined) {
+      setParamsMap((prev) => ({ ...prev, [activeProjectId]: { ...prev[activeProjectId], [key]: value } }))
+    }
+  }, [activeProjectId, unit])
+
+  const applyHistorySnapshot = useCallback((projectId: string, snapshot: HistorySnapshot) => {
+    setParamsMap((prev) => ({ ...prev, [projectId]: snapshot.params }))
+    // A fresh object makes the mounted component restore it
+    setPartStates((prev) => ({
+      ...prev,
+      [projectId]: { overrides: { ...snapshot.parts.overrides }, deleted: [...snapshot.parts.deleted] },
+    }))
+  }, [])
+
+  const history = useHistory({
+    projectId: activeProjectId,
+    params: activeParams,
+    partState: activePartState,
+    paramDefs: activeProject?.paramDefs ?? [],
+    partLabel: activeProject?.partLabel ?? 'Part',
+    apply: applyHistorySnapshot,
+  })
+  const resetHistory = history.reset
+
   const onUnitChange = useCallback(
     (newUnit: UnitSystem) => {
       if (newUnit === unit) return
@@ -242,9 +516,12 @@ function App() {
         }
         return next
       })
+      setCompareParams((prev) => prev && activeParamDefs ? convertParams(prev, activeParamDefs, unit, newUnit) : prev)
       setUnit(newUnit)
+      // Recorded params are in the old unit
+      resetHistory()
     },
-    [unit]
+    [unit, resetHistory, activeParamDefs]
   )
 
   const onSelectionChange = useCallback((ids: Set<string>) => {
@@ -267,29 +544,253 @@ function App() {
     handleRef.current?.deleteSelected()
   }, [])
 
-  const onExportSTL = useCallback(() => {
+  const onSwitchProject = useCallback((id: string) => {
+    // Keep the outgoing project's part edits so switching back (or saving) restores them
+    const current = handleRef.current?.getPartState()
+    if (current) setPartStates((prev) => ({ ...prev, [activeProjectId]: current }))
+    setActivePartState(null)
+    setBuildError(null)
+    setActiveProjectId(id)
+    setCompareParams(null)
+    setSelectedIds(new Set())
+    setPartOverrides({})
+  }, [activeProjectId])
+
+  const onSaveDesign = useCallback(() => {
+    const current = handleRef.current?.getPartState()
+    downloadDesignFile({
+      activeProjectId,
+      unit,
+      lightingMode,
+      camera: poseRef.current?.getPose() ?? null,
+      paramsMap,
+      partStates: current ? { ...partStates, [activeProjectId]: current } : partStates,
+      expressions: userExpressions,
+    }, activeProject?.id ?? 'design')
+  }, [activeProjectId, activeProject, unit, lightingMode, paramsMap, partStates, userExpressions])
+
+  const applyDesign = useCallback((design: DesignState) => {
+    setParamsMap(design.paramsMap)
+    setPartStates(design.partStates)
+    setActivePartState(null)
+    setBuildError(null)
+    setUserExpressions(design.expressions)
+    setUnit(design.unit)
+    setLightingMode(design.lightingMode)
+    setActiveProjectId(design.activeProjectId)
+    setCompareParams(null)
+    setSelectedIds(new Set())
+    setPartOverrides({})
+    if (design.camera) poseRef.current?.setPose(design.camera)
+    resetHistory()
+  }, [resetHistory])
+
+  const onOpenDesign = useCallback(async (file: File) => {
+    try {
+      applyDesign(parseDesignFile(await file.text()))
+      setDesignError(null)
+    } catch (err) {
+      setDesignError(err instanceof Error ? err.message : 'Could not open design file')
+    }
+  }, [applyDesign])
+
+  // ── Session persistence ──
+
+  useEffect(() => {
+    if (initialUrlState) {
+      setSessionReady(true)
+      return
+    }
+    listSnapshots()
+      .then((snapshots) => {
+        if (snapshots.length > 0) setRestoreSnapshots(snapshots)
+        else setSessionReady(true)
+      })
+      .catch((err) => {
+        console.warn('Could not read autosaved sessions:', err)
+        setSessionReady(true)
+      })
+  }, [initialUrlState])
+
+  const onRestoreSnapshot = useCallback((snapshot: SessionSnapshot) => {
+    try {
+      applyDesign(readDesign(snapshot.design))
+    } catch (err) {
+      console.warn('Could not restore autosaved session:', err)
+    }
+    setRestoreSnapshots(null)
+    setSessionReady(true)
+  }, [applyDesign])
+
+  const onDismissRestore = useCallback(() => {
+    setRestoreSnapshots(null)
+    setSessionReady(true)
+  }, [])
+
+  const sessionState = useMemo(() => sessionReady
+    ? {
+        activeProjectId,
+        unit,
+        lightingMode,
+        paramsMap,
+        partStates: activePartState ? { ...partStates, [activeProjectId]: activePartState } : partStates,
+        expressions: userExpressions,
+      }
+    : null,
+  [sessionReady, activeProjectId, unit, lightingMode, paramsMap, partStates, activePartState, userExpressions])
+  const getCameraPose = useCallback(() => poseRef.current?.getPose() ?? null, [])
+  useSessionAutosave(sessionState, getCameraPose)
+
+  const urlState = useMemo(
+    () => ({ activeProjectId, unit, params: paramsMap[activeProjectId] ?? {} }),
+    [activeProjectId, unit, paramsMap]
+  )
+  const syncUrlState = useUrlStateSync(urlState, getCameraPose)
+
+  // ── Model analysis ──
+
+  const analyzedModel = useMemo(() => [activeParams, activePartState], [activeParams, activePartState])
+  const analyzePrint = useMemo(
+    () => printabilityOpen ? (group: THREE.Group) => analyzePrintability(group, printSettings, unit) : null,
+    [printabilityOpen, printSettings, unit]
+  )
+  const printAnalysis = useModelAnalysis(getActiveGroup, analyzePrint, analyzedModel)
+  const modelStats = useModelAnalysis(getActiveGroup, statsOpen ? measureObject : null, analyzedModel)
+  // Always checked, so a change that tips the model over is flagged with the panel closed.
+  // Its two passes over the mesh run on the main thread, so they wait for a pause in edits.
+  // The result carries the design the measured geometry was built from.
+  const stabilityModel = useMemo(
+    () => ({ design: { projectId: activeProjectId, unit, params: activeParams }, parts: activePartState }),
+    [activeProjectId, unit, activeParams, activePartState]
+  )
+  const stabilityCheck = useModelAnalysis(getActiveGroup, checkStability, stabilityModel, STABILITY_DELAY_MS)
+  useEffect(() => {
+    if (stabilityCheck && isStable(stabilityCheck.analysis, minTippingAngle)) setSteadyDesign(stabilityCheck.design)
+  }, [stabilityCheck, minTippingAngle])
+  /** Labels of the params changed since the design last stood steady, or null while it still does */
+  const tippedBy = useMemo(() => {
+    if (!stabilityCheck || isStable(stabilityCheck.analysis, minTippingAngle)) return null
+    const { design } = stabilityCheck
+    if (steadyDesign?.projectId !== design.projectId || steadyDesign.unit !== design.unit) return null
+    return (activeParamDefs ?? [])
+      .filter((def) => steadyDesign.params[def.key] !== design.params[def.key])
+      .map((def) => def.label)
+  }, [stabilityCheck, minTippingAngle, steadyDesign, activeParamDefs])
+  const paramPrintIssues = useMemo(
+    () => printabilityOpen ? checkParamPrintability(activeParams, activeParamDefs ?? [], printSettings, unit) : [],
+    [printabilityOpen, activeParams, activeParamDefs, printSettings, unit]
+  )
+
+  /** The model to export: the parts as they are, or unioned into one solid when asked */
+  const getExportModel = useCallback(async (): Promise<THREE.Object3D | null> => {
     const group = handleRef.current?.getGroup()
-    if (group) downloadSTL(group, activeProject?.id ?? 'model', unit)
-  }, [activeProject, unit])
+    if (!group || !mergeOnExport) return group ?? null
+    const { object, error } = await mergeParts(group)
+    setExportError(error && `Couldn't merge into one solid (${error}), so the parts were exported separately`)
+    return object
+  }, [mergeOnExport])
+
+  const onExportSTL = useCallback(async () => {
+    const model = await getExportModel()
+    if (model) downloadSTL(model, activeProject?.id ?? 'model', unit, { repair: repairOnExport })
+  }, [getExportModel, activeProject, unit, repairOnExport])
 
   const onExportGLB = useCallback(async () => {
-    const group = handleRef.current?.getGroup()
-    if (group) await downloadGLB(group, activeProject?.id ?? 'model', unit)
-  }, [activeProject, unit])
+    const model = await getExportModel()
+    if (model) await downloadGLB(model, activeProject?.id ?? 'model', unit, { repair: repairOnExport })
+  }, [getExportModel, activeProject, unit, repairOnExport])
 
   return (
     <div className="w-screen h-screen bg-[#2a2a2a] relative">
-      <Canvas shadows camera={{ position: [60, 50, 80], fov: 45 }}>
-        <Scene
-          activeProjectId={activeProjectId}
-          params={activeParams}
-          onParamsChange={onParamsChange}
-          onSelectionChange={onSelectionChange}
-          handleRef={handleRef}
-          lightingMode={lightingMode}
-          autoRotate={autoRotate}
+      <div className={cn('absolute inset-y-0 right-0', compareParams ? 'left-1/2 border-l border-border' : 'left-0')}>
+        <Canvas shadows camera={{ position: initialUrlState?.camera?.position ?? [60, 50, 80], fov: 45 }}>
+          <Scene
+            activeProjectId={activeProjectId}
+            params={activeParams}
+            onParamsChange={onParamsChange}
+            onSelectionChange={onSelectionChange}
+            handleRef={handleRef}
+            poseRef={poseRef}
+            partState={partStates[activeProjectId]}
+            onPartStateChange={setActivePartState}
+            lightingMode={lightingMode}
+            autoRotate={autoRotate}
+            initialTarget={initialUrlState?.camera?.target}
+            onCameraEnd={syncUrlState}
+            onBuildError={setBuildError}
+            printAnalysis={printAnalysis}
+            stability={stabilityOpen ? stabilityCheck?.analysis ?? null : null}
+            stable={!!stabilityCheck && isStable(stabilityCheck.analysis, minTippingAngle)}
+          />
+        </Canvas>
+      </div>
+
+      {compareParams && (
+        <div className="absolute inset-y-0 left-0 w-1/2">
+          <Canvas shadows camera={{ fov: 45 }}>
+            <CompareScene
+              activeProjectId={activeProjectId}
+              params={compareParams}
+              handleRef={compareHandleRef}
+              poseRef={poseRef}
+              partState={partStates[activeProjectId]}
+              lightingMode={lightingMode}
+            />
+          </Canvas>
+        </div>
+      )}
+
+      {activeProject && compareParams && (
+        <ComparePanel
+          paramDefs={activeProject.paramDefs}
+          paramsA={compareParams}
+          paramsB={activeParams}
+          getGroupA={getCompareGroup}
+          getGroupB={getActiveGroup}
+          unit={unit}
+          inchFraction={inchFraction}
+          onUseA={() => onParamsChange(compareParams)}
+          onClose={() => setCompareParams(null)}
         />
-      </Canvas>
+      )}
+
+      {/* Model analysis - Bottom Right */}
+      {(statsOpen || stabilityOpen || printabilityOpen) && (
+        <div className="absolute bottom-4 right-4 z-10 flex flex-col gap-2 max-h-[calc(100vh-2rem)] overflow-y-auto">
+          {statsOpen && (
+            <StatsPanel
+              stats={modelStats}
+              settings={estimateSettings}
+              onSettingsChange={setEstimateSettings}
+              unit={unit}
+              onClose={() => setStatsOpen(false)}
+            />
+          )}
+          {stabilityOpen && (
+            <StabilityPanel
+              analysis={stabilityCheck?.analysis ?? null}
+              tippedBy={tippedBy ?? []}
+              minTippingAngle={minTippingAngle}
+              onMinTippingAngleChange={setMinTippingAngle}
+              unit={unit}
+              inchFraction={inchFraction}
+              onClose={() => setStabilityOpen(false)}
+            />
+          )}
+          {printabilityOpen && (
+            <PrintabilityPanel
+              analysis={printAnalysis}
+              paramIssues={paramPrintIssues}
+              settings={printSettings}
+              onSettingsChange={setPrintSettings}
+              unit={unit}
+              inchFraction={inchFraction}
+              onFix={(key, value) => onParamsChange({ ...activeParams, [key]: value })}
+              onClose={() => setPrintabilityOpen(false)}
+            />
+          )}
+        </div>
+      )}
 
       {/* Project Switcher - Top Left, visible on hover */}
       <div
@@ -309,9 +810,7 @@ function App() {
                 <button
                   key={p.id}
                   onClick={() => {
-                    setActiveProjectId(p.id)
-                    setSelectedIds(new Set())
-                    setPartOverrides({})
+                    onSwitchProject(p.id)
                     setProjectsOpen(false)
                   }}
                   className={cn(
@@ -343,14 +842,65 @@ function App() {
           params={activeParams}
           onChange={onParamsChange}
           paramDefs={activeProject.paramDefs}
+          constraints={activeProject.constraints}
+          expressions={activeExpressions}
+          expressionErrors={resolved.errors}
+          onExpressionChange={onExpressionChange}
+          projectId={activeProject.id}
+          defaultParams={activeProject.defaultParams}
+          presets={activeProject.presets}
           onExportSTL={onExportSTL}
           onExportGLB={onExportGLB}
+          onOpenDesignTable={() => setDesignTableOpen(true)}
+          onCheckMesh={() => setMeshCheckOpen(true)}
+          repairOnExport={repairOnExport}
+          mergeOnExport={mergeOnExport}
+          onMergeOnExportChange={(merge) => {
+            setMergeOnExport(merge)
+            setExportError(null)
+          }}
+          exportError={exportError}
           unit={unit}
           onUnitChange={onUnitChange}
+          inchFraction={inchFraction}
+          onInchFractionChange={setInchFraction}
+          snapToStep={snapToStep}
+          onSnapToStepChange={setSnapToStep}
+          onSaveDesign={onSaveDesign}
+          onOpenDesign={onOpenDesign}
+          designError={designError}
           referenceImages={activeProject.referenceImages}
         />
       )}
 
+      {/* Build status - Bottom Center: failed builds, and rebuilds while the geometry worker is busy */}
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 flex flex-col items-center gap-1.5">
+        {buildError && (
+          <div className="flex items-center gap-1.5 max-w-md bg-background/90 backdrop-blur border border-destructive/50 rounded-full px-3 py-1.5 text-xs text-destructive animate-in fade-in duration-150">
+            <TriangleAlert className="size-3.5 shrink-0" />
+            <span className="truncate">{buildError}</span>
+          </div>
+        )}
+        {tippedBy && !stabilityOpen && (
+          <button
+            onClick={() => setStabilityOpen(true)}
+            title="Show the stability check"
+            className="flex items-center gap-1.5 max-w-md bg-background/90 backdrop-blur border border-destructive/50 rounded-full px-3 py-1.5 text-xs text-destructive animate-in fade-in duration-150"
+          >
+            <TriangleAlert className="size-3.5 shrink-0" />
+            <span className="truncate">
+              {tippedBy.length > 0 ? `Tips over after changing ${tippedBy.join(', ')}` : 'The design now tips over'}
+            </span>
+          </button>
+        )}
+        {geometryBusy && (
+          <div className="flex items-center gap-1.5 bg-background/90 backdrop-blur border rounded-full px-3 py-1.5 text-xs text-muted-foreground animate-in fade-in duration-150">
+            <Loader2 className="size-3.5 animate-spin" />
+            Rebuilding…
+          </div>
+        )}
+      </div>
+
       {/* Lighting Presets & Rotate - Bottom Left */}
       <div className="absolute bottom-4 left-4 bg-background/90 backdrop-blur border rounded-lg p-2 z-10 flex flex-col gap-1.5">
         <span className="text-xs font-semibold text-muted-foreground px-1">Scene</span>
@@ -381,9 +931,87 @@ function App() {
         >
           <Orbit className="size-3.5" />
         </button>
+        <button
+          onClick={() => setHistoryOpen((o) => !o)}
+          title="History"
+          className={cn(
+            'px-3 py-1.5 rounded text-xs font-medium transition-colors',
+            historyOpen
+              ? 'bg-primary text-primary-foreground'
+              : 'hover:bg-muted'
+          )}
+        >
+          <History className="size-3.5" />
+        </button>
+        <button
+          onClick={() => setCompareParams((prev) => (prev ? null : activeParams))}
+          title="Compare against the current design in a split view"
+          className={cn(
+            'px-3 py-1.5 rounded text-xs font-medium transition-colors',
+            compareParams
+              ? 'bg-primary text-primary-foreground'
+              : 'hover:bg-muted'
+          )}
+        >
+          <Columns2 className="size-3.5" />
+        </button>
+        <button
+          onClick={() => setStatsOpen((o) => !o)}
+          title="Model stats: volume, mass, cost and print time"
+          className={cn(
+            'px-3 py-1.5 rounded text-xs font-medium transition-colors',
+            statsOpen
+              ? 'bg-primary text-primary-foreground'
+              : 'hover:bg-muted'
+          )}
+        >
+          <Scale className="size-3.5" />
+        </button>
+        <button
+          onClick={() => setStabilityOpen((o) => !o)}
+          title="Center of mass and stability"
+          className={cn(
+            'px-3 py-1.5 rounded text-xs font-medium transition-colors',
+            stabilityOpen
+              ? 'bg-primary text-primary-foreground'
+              : 'hover:bg-muted'
+          )}
+        >
+          <Weight className="size-3.5" />
+        </button>
+        <button
+          onClick={() => setPrintabilityOpen((o) => !o)}
+          title="Check printability: overhangs, thin walls and small features"
+          className={cn(
+            'px-3 py-1.5 rounded text-xs font-medium transition-colors',
+            printabilityOpen
+              ? 'bg-primary text-primary-foreground'
+              : 'hover:bg-muted'
+          )}
+        >
+          <ScanSearch className="size-3.5" />
+        </button>
+        <button
+          onClick={() => setExplorerOpen(true)}
+          title="Explore two parameters"
+          className="px-3 py-1.5 rounded text-xs font-medium transition-colors hover:bg-muted"
+        >
+          <LayoutGrid className="size-3.5" />
+        </button>
         </div>
       </div>
 
+      {/* History - above the Scene bar */}
+      {historyOpen && (
+        <HistoryPanel
+          past={history.past}
+          future={history.future}
+          onUndo={history.undo}
+          onRedo={history.redo}
+          onJump={history.jumpTo}
+        />
+      )}
+
       {/* Selection Panel - Bottom Right (only when parts selected) */}
       {activeProject && selectedIds.size > 0 && (
         <SelectionPanel
@@ -394,6 +1022,53 @@ function App() {
           onDelete={onDelete}
           handleRef={handleRef}
           unit={unit}
+          inchFraction={inchFraction}
+          snapToStep={snapToStep}
+        />
+      )}
+
+      {activeProject && (
+        <DesignTableDialog
+          key={activeProject.id}
+          open={designTableOpen}
+          onOpenChange={setDesignTableOpen}
+          project={activeProject}
+          params={activeParams}
+          expressions={activeExpressions}
+          partState={activePartState ?? partStates[activeProjectId]}
+          unit={unit}
+          repairOnExport={repairOnExport}
+          mergeOnExport={mergeOnExport}
+        />
+      )}
+
+      <MeshCheckDialog
+        open={meshCheckOpen}
+        onOpenChange={setMeshCheckOpen}
+        getGroup={getActiveGroup}
+        repairOnExport={repairOnExport}
+        onRepairOnExportChange={setRepairOnExport}
+      />
+
+      {activeProject && (
+        <ExplorerDialog
+          key={activeProject.id}
+          open={explorerOpen}
+          onOpenChange={setExplorerOpen}
+          project={activeProject}
+          params={activeParams}
+          expressions={activeExpressions}
+          partState={activePartState ?? partStates[activeProjectId]}
+          unit={unit}
+          onApply={onParamsChange}
+        />
+      )}
+
+      {restoreSnapshots && (
+        <SessionRestoreDialog
+          snapshots={restoreSnapshots}
+          onRestore={onRestoreSnapshot}
+          onDismiss={onDismissRestore}
         />
       )}
     </div>
@@ -0,0 +1,142 @@
+import type * as THREE from 'three'
+import { Columns2, X } from 'lucide-react'
+import type { ProjectParams } from '../projects'
+import type { ParamDef, ParamValue } from '../types'
+import { formatLength, unitSuffix, type InchFraction, type UnitSystem } from '../lib/units'
+import { enumOptions, isNumberParam } from '../lib/params'
+import { measureObject } from '../lib/mesh-stats'
+import { useModelAnalysis } from '../hooks/useModelAnalysis'
+import { cn } from '../lib/utils'
+
+interface ComparePanelProps {
+  paramDefs: ParamDef[]
+  /** The snapshot shown on the left */
+  paramsA: ProjectParams
+  /** The live design shown on the right */
+  paramsB: ProjectParams
+  getGroupA: () => THREE.Group | null
+  getGroupB: () => THREE.Group | null
+  unit: UnitSystem
+  inchFraction: InchFraction
+  /** Put the snapshot back into the design */
+  onUseA: () => void
+  onClose: () => void
+}
+
+function formatParam(def: ParamDef, value: ParamValue | undefined, unit: UnitSystem, inchFraction: InchFraction): string {
+  if (value === undefined) return '—'
+  if (!isNumberParam(def) || typeof value !== 'number') {
+    if (def.kind === 'enum') return enumOptions(def).find((o) => o.value === value)?.label ?? String(value)
+    if (typeof value === 'boolean') return value ? 'On' : 'Off'
+    return String(value)
+  }
+  const option = def.options?.find((o) => o.value === value)
+  if (option) return option.label
+  if (def.unitType === 'length') return `${formatLength(value, unit, inchFraction)} ${unit}`
+  return `${Number(value.toFixed(2))}${unitSuffix(def.unitType, unit)}`
+}
+
+/** Signed relative change from a to b, e.g. `+12%` */
+function formatChange(a: number, b: number): string {
+  if (a === 0) return b === 0 ? '' : 'new'
+  const pct = ((b - a) / a) * 100
+  if (Math.abs(pct) < 0.05) return '='
+  return `${pct > 0 ? '+' : ''}${pct.toFixed(1)}%`
+}
+
+const cellClass = 'px-2 py-1 font-mono text-right whitespace-nowrap'
+
+/**
+ * Differences between the two halves of the split view: params that changed, then
+ * bounding box and volume, measured once the geometry worker is idle.
+ */
+export default function ComparePanel({
+  paramDefs,
+  paramsA,
+  paramsB,
+  getGroupA,
+  getGroupB,
+  unit,
+  inchFraction,
+  onUseA,
+  onClose,
+}: ComparePanelProps) {
+  const a = useModelAnalysis(getGroupA, measureObject, paramsA)
+  const b = useModelAnalysis(getGroupB, measureObject, paramsB)
+
+  const changed = paramDefs.filter(
+    (def) => formatParam(def, paramsA[def.key], unit, inchFraction) !== formatParam(def, paramsB[def.key], unit, inchFraction),
+  )
+  const axes = ['Width', 'Height', 'Depth']
+  const volumeDigits = unit === 'mm' ? 0 : 2
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 w-[26rem] max-h-[40vh] overflow-y-auto bg-background/90 backdrop-blur border rounded-xl p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Columns2 className="size-3.5 text-muted-foreground" />
+        <span className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">Compare</span>
+        <button
+          onClick={onUseA}
+          disabled={changed.length === 0}
+          title="Put the left-hand design back"
+          className="ml-auto px-2.5 py-1 text-[11px] font-medium rounded-md border border-border/50 bg-background hover:bg-muted disabled:opacity-40 transition-all"
+        >
+          Use A
+        </button>
+        <button
+          onClick={onClose}
+          title="Leave split view"
+          className="p-1 rounded text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+        >
+          <X className="size-3.5" />
+        </button>
+      </div>
+
+      <table className="w-full text-[11px]">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th className="px-2 py-1 text-left font-medium" />
+            <th className="px-2 py-1 text-right font-medium">A · left</th>
+            <th className="px-2 py-1 text-right font-medium">B · right</th>
+            <th className="px-2 py-1 text-right font-medium" />
+          </tr>
+        </thead>
+        <tbody>
+          {changed.length === 0 && (
+            <tr>
+              <td colSpan={4} className="px-2 py-1 text-muted-foreground">No parameter differences</td>
+            </tr>
+          )}
+          {changed.map((def) => {
+            const va = paramsA[def.key]
+            const vb = paramsB[def.key]
+            return (
+              <tr key={def.key} className="border-t border-border/30">
+                <td className="px-2 py-1 text-foreground/80">{def.label}</td>
+                <td className={cellClass}>{formatParam(def, va, unit, inchFraction)}</td>
+                <td className={cellClass}>{formatParam(def, vb, unit, inchFraction)}</td>
+                <td className={cn(cellClass, 'text-muted-foreground')}>
+                  {typeof va === 'number' && typeof vb === 'number' ? formatChange(va, vb) : ''}
+                </td>
+              </tr>
+            )
+          })}
+          {axes.map((label, i) => (
+            <tr key={label} className={cn('border-t border-border/30', i === 0 && 'border-border')}>
+              <td className="px-2 py-1 text-foreground/80">{label}</td>
+              <td className={cellClass}>{a ? formatLength(a.size[i], unit, inchFraction) : '—'}</td>
+              <td className={cellClass}>{b ? formatLength(b.size[i], unit, inchFraction) : '—'}</td>
+              <td className={cn(cellClass, 'text-muted-foreground')}>{a && b ? formatChange(a.size[i], b.size[i]) : ''}</td>
+            </tr>
+          ))}
+          <tr className="border-t border-border/30">
+            <td className="px-2 py-1 text-foreground/80">Volume ({unit}³)</td>
+            <td className={cellClass}>{a ? a.volume.toFixed(volumeDigits) : '—'}</td>
+            <td className={cellClass}>{b ? b.volume.toFixed(volumeDigits) : '—'}</td>
+            <td className={cn(cellClass, 'text-muted-foreground')}>{a && b ? formatChange(a.volume, b.volume) : ''}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  )
+}
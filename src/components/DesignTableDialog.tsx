@@ -0,0 +1,337 @@
+import { useMemo, useRef, useState } from 'react'
+import type * as THREE from 'three'
+import { Download, Images, Plus, RotateCcw, Table, Upload, X } from 'lucide-react'
+import { Dialog, DialogContent, DialogTitle, DialogDescription, DialogHeader, DialogFooter } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import type { Project, ProjectParams } from '../projects'
+import type { PartState } from '../types'
+import type { UnitSystem } from '../lib/units'
+import type { ParamExpression } from '../lib/expressions'
+import {
+  designTableFromCsv, designTableFromParams, designTableToCsv, resolveDesignTable, variantFileNames,
+  type DesignTable,
+} from '../lib/design-table'
+import { downloadZip, exportGLB, exportSTL, mergeParts, triggerDownload } from '../lib/export'
+import { cn } from '../lib/utils'
+import VariantRenderer, { type RenderedVariant } from './VariantRenderer'
+
+interface DesignTableDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  project: Project
+  /** The design on screen (in `unit`); blank cells and new tables start from it */
+  params: ProjectParams
+  expressions: Record<string, ParamExpression>
+  partState?: PartState
+  unit: UnitSystem
+  /** Run exports through the mesh repair pass */
+  repairOnExport: boolean
+  /** Union each variant's parts into one solid */
+  mergeOnExport: boolean
+}
+
+type RunMode = 'preview' | 'stl' | 'glb'
+
+/** A pass over every variant, building them one at a time */
+interface Run {
+  id: number
+  mode: RunMode
+  index: number
+  files: Record<string, Uint8Array>
+  failed: string[]
+}
+
+interface Thumbnail {
+  /** The variant it was rendered from, so edits invalidate it */
+  signature: string
+  src: string
+  error: string | null
+}
+
+const MAX_LISTED_ERRORS = 6
+
+const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border border-border/50 bg-background hover:bg-muted disabled:opacity-40 transition-all'
+
+/** Edit a table of variants of the active project, preview them, and export them all as one zip */
+export default function DesignTableDialog({
+  open,
+  onOpenChange,
+  project,
+  params,
+  expressions,
+  partState,
+  unit,
+  repairOnExport,
+  mergeOnExport,
+}: DesignTableDialogProps) {
+  const [table, setTable] = useState<DesignTable | null>(null)
+  const [nameTemplate, setNameTemplate] = useState(`${project.id}-{#}`)
+  const [thumbnails, setThumbnails] = useState<Record<number, Thumbnail>>({})
+  const [run, setRun] = useState<Run | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+  const csvInputRef = useRef<HTMLInputElement>(null)
+  // Bumped when a run starts or is cancelled, so a late result from an old run is dropped
+  const runIdRef = useRef(0)
+
+  // The table starts as the current design the first time the dialog opens
+  if (open && !table) setTable(designTableFromParams(params, project.paramDefs))
+
+  const resolved = useMemo(
+    () => table
+      ? resolveDesignTable(table, project.paramDefs, params, expressions, project.constraints ?? [], unit)
+      : { variants: [], errors: [] },
+    [table, project, params, expressions, unit],
+  )
+  const { variants, errors } = resolved
+  const signatures = useMemo(() => variants.map((v) => JSON.stringify(v)), [variants])
+
+  let nameError: string | null = null
+  let fileNames: string[] = []
+  try {
+    fileNames = variantFileNames(nameTemplate, variants, run?.mode === 'glb' ? 'glb' : 'stl')
+  } catch (err) {
+    nameError = err instanceof Error ? err.message : String(err)
+  }
+
+  if (!table) return null
+
+  const updateCell = (row: number, col: number, value: string) => {
+    setTable({ ...table, rows: table.rows.map((r, i) => (i === row ? r.map((c, j) => (j === col ? value : c)) : r)) })
+  }
+
+  const start = (mode: RunMode) => {
+    runIdRef.current++
+    setStatus(null)
+    setRun({ id: runIdRef.current, mode, index: 0, files: {}, failed: [] })
+  }
+
+  const cancel = () => {
+    runIdRef.current++
+    setRun(null)
+    setStatus('Cancelled')
+  }
+
+  const onRendered = async ({ group, thumbnail, error }: RenderedVariant) => {
+    if (!run || run.id !== runIdRef.current) return
+    const { index } = run
+    setThumbnails((prev) => ({ ...prev, [index]: { signature: signatures[index], src: thumbnail, error } }))
+
+    const files = { ...run.files }
+    const failed = error ? [...run.failed, `Row ${index + 1}: ${error}`] : [...run.failed]
+    if (!error && run.mode !== 'preview') {
+      // A row that fails to export is reported with the others rather than stalling the run
+      try {
+        let model: THREE.Object3D = group
+        if (mergeOnExport) {
+          const merged = await mergeParts(group)
+          if (run.id !== runIdRef.current) return
+          if (merged.error) failed.push(`Row ${index + 1}: not merged (${merged.error})`)
+          model = merged.object
+        }
+        const options = { repair: repairOnExport }
+        files[fileNames[index]] = run.mode === 'stl' ? exportSTL(model, unit, options) : await exportGLB(model, unit, options)
+      } catch (err) {
+        failed.push(`Row ${index + 1}: not exported (${err instanceof Error ? err.message : String(err)})`)
+      }
+      if (run.id !== runIdRef.current) return
+    }
+
+    if (index + 1 < variants.length) {
+      setRun({ ...run, index: index + 1, files, failed })
+      return
+    }
+    setRun(null)
+    const done = Object.keys(files).length
+    if (run.mode !== 'preview' && done > 0) downloadZip(files, `${project.id}-variants`)
+    const summary = run.mode === 'preview'
+      ? `Previewed ${variants.length} variant${variants.length === 1 ? '' : 's'}`
+      : `Exported ${done} of ${variants.length} variants`
+    setStatus(failed.length > 0 ? `${summary}. ${failed.join('; ')}` : summary)
+  }
+
+  const importCsv = async (file: File) => {
+    try {
+      setTable(designTableFromCsv(await file.text()))
+      setStatus(null)
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Could not read the CSV file')
+    }
+  }
+
+  const defs = new Map(project.paramDefs.map((d) => [d.key, d]))
+  const blocked = !!run || errors.length > 0 || !!nameError || variants.length === 0
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !run && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Table className="size-4" />
+            Design Table
+          </DialogTitle>
+          <DialogDescription>
+            Each row is a variant of {project.name}, in {unit}. Blank cells keep the current value; numbers may use
+            arithmetic and units like <span className="font-mono">1in + 3mm</span>.
+          </DialogDescription>
+        </DialogHeader>
+
+        <fieldset disabled={!!run} className="space-y-3 min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => csvInputRef.current?.click()} className={buttonClass}>
+              <Upload className="size-3.5" />
+              Import CSV
+            </button>
+            <input
+              ref={csvInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ''
+                if (file) importCsv(file)
+              }}
+            />
+            <button
+              onClick={() => triggerDownload(new Blob([designTableToCsv(table)], { type: 'text/csv' }), `${project.id}-table.csv`)}
+              className={buttonClass}
+            >
+              <Download className="size-3.5" />
+              CSV
+            </button>
+            <button
+              onClick={() => setTable({ ...table, rows: [...table.rows, [...(table.rows.at(-1) ?? table.columns.map(() => ''))]] })}
+              className={buttonClass}
+            >
+              <Plus className="size-3.5" />
+              Add row
+            </button>
+            <button
+              onClick={() => setTable(designTableFromParams(params, project.paramDefs))}
+              title="Start over from the design on screen"
+              className={buttonClass}
+            >
+              <RotateCcw className="size-3.5" />
+              Reset
+            </button>
+            <label className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+              File names
+              <Input
+                value={nameTemplate}
+                onChange={(e) => setNameTemplate(e.target.value)}
+                title="{key} inserts a param's value, {#} the row number"
+                aria-invalid={!!nameError}
+                className="h-8 w-56 text-xs font-mono"
+              />
+            </label>
+          </div>
+
+          <div className="max-h-[50vh] overflow-auto rounded-lg border border-border/50">
+            <table className="text-xs">
+              <thead className="sticky top-0 z-10 bg-background">
+                <tr className="text-left text-muted-foreground">
+                  <th className="px-2 py-1.5 font-medium">#</th>
+                  <th className="px-2 py-1.5 font-medium">Preview</th>
+                  {table.columns.map((key) => (
+                    <th
+                      key={key}
+                      title={defs.get(key)?.label ?? 'Not a parameter of this project'}
+                      className={cn('px-1 py-1.5 font-mono font-medium whitespace-nowrap', !defs.has(key) && 'text-destructive line-through')}
+                    >
+                      {key}
+                    </th>
+                  ))}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.map((row, r) => {
+                  const thumb = thumbnails[r]?.signature === signatures[r] ? thumbnails[r] : null
+                  return (
+                    <tr key={r} className="border-t border-border/30">
+                      <td className="px-2 text-muted-foreground">{r + 1}</td>
+                      <td className="px-2 py-1">
+                        <div
+                          title={thumb?.error ?? undefined}
+                          className={cn(
+                            'size-12 rounded-md border bg-muted/30 overflow-hidden',
+                            thumb?.error ? 'border-destructive' : 'border-border/50',
+                            run?.index === r && 'animate-pulse'
+                          )}
+                        >
+                          {thumb && !thumb.error && <img src={thumb.src} alt={`Row ${r + 1}`} className="size-full object-contain" />}
+                        </div>
+                      </td>
+                      {row.map((cell, c) => (
+                        <td key={table.columns[c]} className="px-1">
+                          <input
+                            value={cell}
+                            onChange={(e) => updateCell(r, c, e.target.value)}
+                            aria-label={`Row ${r + 1} ${table.columns[c]}`}
+                            className="w-20 h-7 px-1.5 rounded-md border border-border/50 bg-background font-mono text-[11px] outline-none focus:border-ring"
+                          />
+                        </td>
+                      ))}
+                      <td className="px-1">
+                        <button
+                          onClick={() => setTable({ ...table, rows: table.rows.filter((_, i) => i !== r) })}
+                          title="Remove row"
+                          className="p-1 rounded text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+                        >
+                          <X className="size-3.5" />
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </fieldset>
+
+        {(errors.length > 0 || nameError) && (
+          <ul className="space-y-0.5 text-[11px] text-destructive">
+            {nameError && <li>{nameError}</li>}
+            {errors.slice(0, MAX_LISTED_ERRORS).map((e) => <li key={e}>{e}</li>)}
+            {errors.length > MAX_LISTED_ERRORS && <li>…and {errors.length - MAX_LISTED_ERRORS} more</li>}
+          </ul>
+        )}
+
+        <DialogFooter className="items-center">
+          <p className="mr-auto text-xs text-muted-foreground">
+            {run ? `Building ${run.index + 1} of ${variants.length}…` : status}
+          </p>
+          {run ? (
+            <button onClick={cancel} className={buttonClass}>
+              Cancel
+            </button>
+          ) : (
+            <>
+              <button disabled={blocked} onClick={() => start('preview')} className={buttonClass}>
+                <Images className="size-3.5" />
+                Preview
+              </button>
+              <button disabled={blocked} onClick={() => start('stl')} className={buttonClass}>
+                <Download className="size-3.5" />
+                .stl zip
+              </button>
+              <button disabled={blocked} onClick={() => start('glb')} className={buttonClass}>
+                <Download className="size-3.5" />
+                .glb zip
+              </button>
+            </>
+          )}
+        </DialogFooter>
+
+        {run && (
+          <VariantRenderer
+            project={project}
+            params={variants[run.index]}
+            partState={partState}
+            onRendered={onRendered}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
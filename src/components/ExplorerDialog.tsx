@@ -0,0 +1,257 @@
+import { useMemo, useState } from 'react'
+import { LayoutGrid } from 'lucide-react'
+import { Dialog, DialogContent, DialogTitle, DialogDescription, DialogHeader, DialogFooter } from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import type { Project, ProjectParams } from '../projects'
+import type { NumberParamDef, PartState } from '../types'
+import { scaleParamDef, unitSuffix, type UnitSystem } from '../lib/units'
+import { resolveExpressions, type ParamExpression } from '../lib/expressions'
+import { checkConstraints } from '../lib/constraints'
+import { isNumberParam } from '../lib/params'
+import { cn } from '../lib/utils'
+import NumericInput from './NumericInput'
+import VariantRenderer, { type RenderedVariant } from './VariantRenderer'
+
+interface ExplorerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  project: Project
+  /** The design on screen (in `unit`); every cell varies it along the two axes */
+  params: ProjectParams
+  expressions: Record<string, ParamExpression>
+  partState?: PartState
+  unit: UnitSystem
+  /** Take a cell's values into the design */
+  onApply: (params: ProjectParams) => void
+}
+
+interface Axis {
+  key: string
+  count: number
+  /** Range in `unit`; null means the param's full range */
+  from: number | null
+  to: number | null
+}
+
+interface Cell {
+  params: ProjectParams
+  /** Constraint messages the cell breaks */
+  problems: string[]
+}
+
+const COUNTS = [2, 3, 4, 5, 6]
+
+const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border border-border/50 bg-background hover:bg-muted disabled:opacity-40 transition-all'
+const selectClass = 'w-full h-8 px-2 text-xs rounded-lg border border-border bg-background text-foreground outline-none focus-visible:ring-ring/50 focus-visible:ring-[3px]'
+
+/** `count` evenly spaced values from `from` to `to`, rounded onto the step grid */
+function axisValues(def: NumberParamDef, from: number, to: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => {
+    const v = from + ((to - from) * i) / (count - 1)
+    const snapped = def.min + Math.round((v - def.min) / def.step) * def.step
+    return Number(Math.min(def.max, Math.max(def.min, snapped)).toFixed(6))
+  })
+}
+
+/** Render the active project across a grid of two params' values, and pick a cell to apply it */
+export default function ExplorerDialog({
+  open,
+  onOpenChange,
+  project,
+  params,
+  expressions,
+  partState,
+  unit,
+  onApply,
+}: ExplorerDialogProps) {
+  // Sliders only: choices and computed params make poor axes
+  const axisDefs = useMemo(
+    () => project.paramDefs
+      .filter(isNumberParam)
+      .filter((d) => !d.options && !expressions[d.key])
+      .map((d) => scaleParamDef(d, unit)),
+    [project, expressions, unit],
+  )
+  const [x, setX] = useState<Axis>({ key: axisDefs[0]?.key ?? '', count: 4, from: null, to: null })
+  const [y, setY] = useState<Axis>({ key: axisDefs[1]?.key ?? axisDefs[0]?.key ?? '', count: 4, from: null, to: null })
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({})
+  const [rendering, setRendering] = useState<number | null>(null)
+
+  const xDef = axisDefs.find((d) => d.key === x.key)
+  const yDef = axisDefs.find((d) => d.key === y.key)
+  const xValues = useMemo(
+    () => (xDef ? axisValues(xDef, x.from ?? xDef.min, x.to ?? xDef.max, x.count) : []),
+    [xDef, x.from, x.to, x.count],
+  )
+  // Highest value at the top, like a chart
+  const yValues = useMemo(
+    () => (yDef ? axisValues(yDef, y.from ?? yDef.min, y.to ?? yDef.max, y.count).reverse() : []),
+    [yDef, y.from, y.to, y.count],
+  )
+
+  const cells: Cell[] = useMemo(() => yValues.flatMap((vy) => xValues.map((vx) => {
+    const raw = { ...params, [x.key]: vx, [y.key]: vy }
+    const resolved = resolveExpressions(raw, project.paramDefs, expressions, unit).params
+    const problems = checkConstraints(resolved, project.constraints ?? [], project.paramDefs, unit).map((v) => v.constraint.message)
+    return { params: resolved, problems }
+  })), [xValues, yValues, x.key, y.key, params, project, expressions, unit])
+
+  // Changing the grid stops a render in progress and drops its thumbnails
+  const updateAxis = (setAxis: typeof setX, patch: Partial<Axis>) => {
+    setRendering(null)
+    setThumbnails({})
+    setAxis((prev) => ({ ...prev, ...patch }))
+  }
+
+  const onRendered = ({ thumbnail }: RenderedVariant) => {
+    if (rendering === null) return
+    const index = rendering
+    setThumbnails((prev) => ({ ...prev, [index]: thumbnail }))
+    setRendering(index + 1 < cells.length ? index + 1 : null)
+  }
+
+  const renderAxisControls = (label: string, axis: Axis, setAxis: typeof setX, def: NumberParamDef | undefined) => (
+    <div className="flex-1 space-y-2">
+      <Label className="text-xs text-foreground/80">{label}</Label>
+      <div className="flex gap-1.5">
+        <select
+          value={axis.key}
+          onChange={(e) => updateAxis(setAxis, { key: e.target.value, from: null, to: null })}
+          className={selectClass}
+        >
+          {axisDefs.map((d) => <option key={d.key} value={d.key}>{d.label}</option>)}
+        </select>
+        <select
+          value={axis.count}
+          onChange={(e) => updateAxis(setAxis, { count: Number(e.target.value) })}
+          title="Steps"
+          className={cn(selectClass, 'w-16')}
+        >
+          {COUNTS.map((n) => <option key={n} value={n}>{n}</option>)}
+        </select>
+      </div>
+      {def && (
+        <div className="flex items-center gap-1 text-[11px] text-muted-foreground">
+          from
+          <NumericInput
+            value={axis.from ?? def.min}
+            onChange={(v) => updateAxis(setAxis, { from: v })}
+            min={def.min}
+            max={def.max}
+            step={def.step}
+            unit={def.unitType === 'length' ? unit : undefined}
+            label={`${label} from`}
+            className="w-16 border-border/50"
+          />
+          to
+          <NumericInput
+            value={axis.to ?? def.max}
+            onChange={(v) => updateAxis(setAxis, { to: v })}
+            min={def.min}
+            max={def.max}
+            step={def.step}
+            unit={def.unitType === 'length' ? unit : undefined}
+            label={`${label} to`}
+            className="w-16 border-border/50"
+          />
+          {unitSuffix(def.unitType, unit)}
+        </div>
+      )}
+    </div>
+  )
+
+  const formatAxisValue = (v: number, def: NumberParamDef) => `${Number(v.toFixed(3))}${unitSuffix(def.unitType, unit)}`
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutGrid className="size-4" />
+            Explore
+          </DialogTitle>
+          <DialogDescription>
+            Render {project.name} across two parameters at once. Click a cell to apply its values.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4">
+          {renderAxisControls('Across', x, setX, xDef)}
+          {renderAxisControls('Down', y, setY, yDef)}
+        </div>
+
+        {xDef && yDef && (
+          <div
+            className="grid gap-1.5 max-h-[55vh] overflow-auto"
+            style={{ gridTemplateColumns: `auto repeat(${xValues.length}, minmax(0, 1fr))` }}
+          >
+            <div />
+            {xValues.map((vx, i) => (
+              <div key={i} className="text-center font-mono text-[11px] text-muted-foreground">{formatAxisValue(vx, xDef)}</div>
+            ))}
+            {yValues.map((vy, row) => (
+              <div key={row} className="contents">
+                <div className="self-center pr-1 text-right font-mono text-[11px] text-muted-foreground">{formatAxisValue(vy, yDef)}</div>
+                {xValues.map((_, col) => {
+                  const index = row * xValues.length + col
+                  const cell = cells[index]
+                  return (
+                    <button
+                      key={col}
+                      onClick={() => {
+                        onApply(cell.params)
+                        onOpenChange(false)
+                      }}
+                      title={cell.problems.join('\n') || undefined}
+                      className={cn(
+                        'aspect-square rounded-lg border bg-muted/30 overflow-hidden hover:border-primary transition-colors',
+                        cell.problems.length > 0 ? 'border-destructive/60' : 'border-border/50',
+                        rendering === index && 'animate-pulse'
+                      )}
+                    >
+                      {thumbnails[index] && (
+                        <img src={thumbnails[index]} alt={`${xDef.label} ${xValues[col]}, ${yDef.label} ${vy}`} className="size-full object-contain" />
+                      )}
+                    </button>
+                  )
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="items-center">
+          <p className="mr-auto text-xs text-muted-foreground">
+            {rendering !== null ? `Rendering ${rendering + 1} of ${cells.length}…` : `${cells.length} cells`}
+          </p>
+          {rendering !== null ? (
+            <button onClick={() => setRendering(null)} className={buttonClass}>
+              Stop
+            </button>
+          ) : (
+            <button
+              disabled={cells.length === 0}
+              onClick={() => {
+                setThumbnails({})
+                setRendering(0)
+              }}
+              className={buttonClass}
+            >
+              <LayoutGrid className="size-3.5" />
+              Render
+            </button>
+          )}
+        </DialogFooter>
+
+        {rendering !== null && cells[rendering] && (
+          <VariantRenderer
+            project={project}
+            params={cells[rendering].params}
+            partState={partState}
+            onRendered={onRendered}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react'
+import { Check, X } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { parseExpression, type ParsedExpression } from '../lib/expressions'
+
+interface ExpressionInputProps {
+  initial: string
+  /** Params the expression may refer to */
+  paramKeys: string[]
+  /** Called with a parsed expression, or null when the field was cleared */
+  onCommit: (source: string, parsed: ParsedExpression | null) => void
+  onCancel: () => void
+}
+
+const iconButtonClass = 'p-1.5 rounded-lg border border-border/50 bg-background hover:bg-muted disabled:opacity-40 transition-all'
+
+/** Inline editor for a param expression; malformed input stays open with the parse error */
+export default function ExpressionInput({ initial, paramKeys, onCommit, onCancel }: ExpressionInputProps) {
+  const [draft, setDraft] = useState(initial)
+  const [error, setError] = useState<string | null>(null)
+
+  const commit = () => {
+    const source = draft.trim()
+    if (!source) {
+      onCommit('', null)
+      return
+    }
+    try {
+      const parsed = parseExpression(source)
+      const unknown = parsed.names.find((n) => !paramKeys.includes(n))
+      if (unknown) throw new Error(`Unknown parameter "${unknown}"`)
+      onCommit(source, parsed)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1.5">
+        <Input
+          autoFocus
+          value={draft}
+          placeholder="e.g. gripDiameter * 0.75"
+          aria-invalid={!!error}
+          onChange={(e) => {
+            setDraft(e.target.value)
+            setError(null)
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit()
+            else if (e.key === 'Escape') onCancel()
+          }}
+          className="h-8 text-xs font-mono"
+        />
+        <button onClick={commit} className={iconButtonClass} title="Apply">
+          <Check className="size-3.5" />
+        </button>
+        <button onClick={onCancel} className={iconButtonClass} title="Cancel">
+          <X className="size-3.5" />
+        </button>
+      </div>
+      {error && <p className="text-[11px] text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+import { Undo2, Redo2 } from 'lucide-react'
+import type { HistoryEntry } from '../lib/history'
+import { cn } from '../lib/utils'
+
+interface HistoryPanelProps {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+  onUndo: () => void
+  onRedo: () => void
+  /** Jump to the state after an entry, or to the initial state for null */
+  onJump: (entryId: number | null) => void
+}
+
+export default function HistoryPanel({ past, future, onUndo, onRedo, onJump }: HistoryPanelProps) {
+  const current = past[past.length - 1]?.id ?? null
+
+  const row = (id: number | null, label: string, undone: boolean) => (
+    <button
+      key={id ?? 'initial'}
+      onClick={() => onJump(id)}
+      className={cn(
+        'w-full text-left px-2 py-1 rounded text-xs transition-colors truncate',
+        id === current
+          ? 'bg-primary text-primary-foreground'
+          : undone
+            ? 'text-muted-foreground/50 hover:bg-muted'
+            : 'hover:bg-muted'
+      )}
+    >
+      {label}
+    </button>
+  )
+
+  return (
+    <div className="absolute bottom-24 left-4 w-56 bg-background/90 backdrop-blur border rounded-lg p-2 z-10 flex flex-col gap-1.5 animate-in fade-in duration-150">
+      <div className="flex items-center justify-between px-1">
+        <span className="text-xs font-semibold text-muted-foreground">History</span>
+        <div className="flex gap-1">
+          <button
+            onClick={onUndo}
+            disabled={past.length === 0}
+            title="Undo (Ctrl+Z)"
+            className="p-1 rounded hover:bg-muted disabled:opacity-40 transition-colors"
+          >
+            <Undo2 className="size-3.5" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={future.length === 0}
+            title="Redo (Ctrl+Shift+Z)"
+            className="p-1 rounded hover:bg-muted disabled:opacity-40 transition-colors"
+          >
+            <Redo2 className="size-3.5" />
+          </button>
+        </div>
+      </div>
+      <div className="max-h-56 overflow-y-auto space-y-0.5">
+        {row(null, 'Initial state', false)}
+        {past.map((e) => row(e.id, e.label, false))}
+        {future.map((e) => row(e.id, e.label, true))}
+      </div>
+    </div>
+  )
+}
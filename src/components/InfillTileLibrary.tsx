@@ -0,0 +1,91 @@
+import { useState, useRef } from 'react'
+import { Upload, X } from 'lucide-react'
+import { addTile, removeTile } from '../lib/infill-tiles'
+import { INFILL_DEFAULT_PARAMS, tilePattern } from '../lib/infill'
+import { stringParam } from '../lib/params'
+import { useInfillTiles } from '../hooks/useInfillTiles'
+import type { ParamValue } from '../types'
+
+interface InfillTileLibraryProps {
+  /** The current fillPattern */
+  pattern: ParamValue | undefined
+  /** Called to select a freshly imported tile, or to fall back when the selected one is removed */
+  onPatternChange: (pattern: string) => void
+}
+
+export default function InfillTileLibrary({ pattern, onPatternChange }: InfillTileLibraryProps) {
+  const tiles = useInfillTiles()
+  const [dragOver, setDragOver] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const importFiles = async (files: FileList | null) => {
+    const file = files?.[0]
+    if (!file) return
+    if (!file.name.toLowerCase().endsWith('.svg') && file.type !== 'image/svg+xml') {
+      setError('Drop an .svg file')
+      return
+    }
+    try {
+      const tile = addTile(file.name.replace(/\.svg$/i, ''), await file.text())
+      setError(null)
+      onPatternChange(tilePattern(tile.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read SVG tile')
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div
+        onDragOver={(e) => { e.preventDefault(); setDragOver(true) }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setDragOver(false)
+          importFiles(e.dataTransfer.files)
+        }}
+        onClick={() => inputRef.current?.click()}
+        className={`flex items-center justify-center gap-2 px-3 py-3 text-[11px] rounded-lg border border-dashed cursor-pointer transition-all ${
+          dragOver ? 'border-primary bg-primary/10 text-foreground' : 'border-border/50 text-muted-foreground hover:bg-muted'
+        }`}
+      >
+        <Upload className="size-3.5" />
+        Drop an SVG tile to use as a pattern
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".svg,image/svg+xml"
+          className="hidden"
+          onChange={(e) => {
+            importFiles(e.target.files)
+            e.target.value = ''
+          }}
+        />
+      </div>
+      {error && <p className="text-[11px] text-destructive">{error}</p>}
+      {tiles.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {tiles.map((tile) => (
+            <span
+              key={tile.id}
+              className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 text-[11px] rounded-md bg-muted/50 text-muted-foreground"
+            >
+              {tile.name}
+              <button
+                onClick={() => {
+                  removeTile(tile.id)
+                  if (pattern === tilePattern(tile.id)) onPatternChange(stringParam(INFILL_DEFAULT_PARAMS, 'fillPattern'))
+                }}
+                className="rounded hover:bg-muted hover:text-foreground p-0.5"
+                title="Remove tile"
+              >
+                <X className="size-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
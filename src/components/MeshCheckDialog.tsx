@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react'
+import type * as THREE from 'three'
+import { Check, Loader2, ShieldCheck, TriangleAlert } from 'lucide-react'
+import { Dialog, DialogContent, DialogTitle, DialogDescription, DialogHeader, DialogFooter } from '@/components/ui/dialog'
+import { useGeometryBusy } from '../hooks/useGeometryJob'
+import { checkMeshIntegrity, isWatertight, repairObject, type MeshIntegrity } from '../lib/mesh-integrity'
+import { cn } from '../lib/utils'
+
+interface MeshCheckDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  getGroup: () => THREE.Group | null
+  /** Exports go through the repair pass */
+  repairOnExport: boolean
+  onRepairOnExportChange: (repair: boolean) => void
+}
+
+interface Reports {
+  model: MeshIntegrity
+  repaired: MeshIntegrity
+}
+
+const ROWS: { key: keyof MeshIntegrity; label: string; hint: string }[] = [
+  { key: 'openEdges', label: 'Open edges', hint: 'Holes in the surface' },
+  { key: 'nonManifoldEdges', label: 'Non-manifold edges', hint: 'Edges shared by more than two faces' },
+  { key: 'flippedEdges', label: 'Flipped faces', hint: 'Edges between faces wound in opposite directions' },
+  { key: 'invertedShells', label: 'Inside-out shells', hint: 'Closed parts whose normals point inwards' },
+  { key: 'degenerateTriangles', label: 'Degenerate triangles', hint: 'Faces with no area' },
+  { key: 'selfIntersections', label: 'Self-intersections', hint: 'Faces of one part crossing each other' },
+]
+
+const cellClass = 'px-2 py-1 font-mono text-right whitespace-nowrap'
+
+function formatCount(report: MeshIntegrity, key: keyof MeshIntegrity): string {
+  const value = report[key] as number
+  return key === 'selfIntersections' && report.selfIntersectionsCapped ? `${value}+` : String(value)
+}
+
+/** Check the model's meshes for what slicers reject, and show what the export repair pass would fix */
+export default function MeshCheckDialog({
+  open,
+  onOpenChange,
+  getGroup,
+  repairOnExport,
+  onRepairOnExportChange,
+}: MeshCheckDialogProps) {
+  const busy = useGeometryBusy()
+  // Null while checking; 'empty' when there is no model to check
+  const [reports, setReports] = useState<Reports | 'empty' | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setReports(null)
+    // The check waits for the latest geometry, so it doesn't report on a half-built model
+    if (busy) return
+    // Two frames: the latest geometry is committed and the dialog has painted its spinner
+    // before the (synchronous) check
+    let frame = requestAnimationFrame(() => {
+      frame = requestAnimationFrame(() => {
+        const group = getGroup()
+        setReports(group
+          ? { model: checkMeshIntegrity(group), repaired: checkMeshIntegrity(repairObject(group)) }
+          : 'empty')
+      })
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [open, busy, getGroup])
+
+  const watertight = (report: MeshIntegrity) => (
+    isWatertight(report)
+      ? <span className="inline-flex items-center gap-1 text-emerald-500"><Check className="size-3" />Yes</span>
+      : <span className="inline-flex items-center gap-1 text-destructive"><TriangleAlert className="size-3" />No</span>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="size-4" />
+            Mesh Check
+          </DialogTitle>
+          <DialogDescription>
+            Problems that make slicers complain, in the model as built and after the export repair pass.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!reports ? (
+          <div className="flex items-center gap-2 py-6 justify-center text-xs text-muted-foreground">
+            <Loader2 className="size-3.5 animate-spin" />
+            Checking…
+          </div>
+        ) : reports === 'empty' ? (
+          <p className="py-6 text-center text-xs text-muted-foreground">There is no model to check yet.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="px-2 py-1 text-left font-medium" />
+                <th className="px-2 py-1 text-right font-medium">Model</th>
+                <th className="px-2 py-1 text-right font-medium">Repaired</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-t border-border/30">
+                <td className="px-2 py-1 text-foreground/80">Watertight</td>
+                <td className={cellClass}>{watertight(reports.model)}</td>
+                <td className={cellClass}>{watertight(reports.repaired)}</td>
+              </tr>
+              {ROWS.map(({ key, label, hint }) => (
+                <tr key={key} className="border-t border-border/30" title={hint}>
+                  <td className="px-2 py-1 text-foreground/80">{label}</td>
+                  <td className={cn(cellClass, reports.model[key] ? 'text-destructive' : 'text-muted-foreground')}>
+                    {formatCount(reports.model, key)}
+                  </td>
+                  <td className={cn(cellClass, reports.repaired[key] ? 'text-destructive' : 'text-muted-foreground')}>
+                    {formatCount(reports.repaired, key)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t border-border/30 text-muted-foreground">
+                <td className="px-2 py-1">Triangles in {reports.model.meshes} mesh{reports.model.meshes === 1 ? '' : 'es'}</td>
+                <td className={cellClass}>{reports.model.triangles}</td>
+                <td className={cellClass}>{reports.repaired.triangles}</td>
+              </tr>
+            </tbody>
+          </table>
+        )}
+        {reports && reports !== 'empty' && reports.repaired.selfIntersections > 0 && (
+          <p className="text-[11px] text-muted-foreground">
+            Repair doesn't untangle self-intersections; most slicers merge them when slicing.
+          </p>
+        )}
+
+        <DialogFooter className="items-center sm:justify-between">
+          <label htmlFor="repair-on-export" className="text-xs text-foreground/80">Repair meshes on export</label>
+          <button
+            id="repair-on-export"
+            role="switch"
+            aria-checked={repairOnExport}
+            onClick={() => onRepairOnExportChange(!repairOnExport)}
+            className={cn(
+              'relative inline-flex h-5 w-9 shrink-0 items-center rounded-full border transition-colors',
+              repairOnExport ? 'bg-primary border-primary' : 'bg-muted border-border'
+            )}
+          >
+            <span
+              className={cn(
+                'size-3.5 rounded-full bg-background shadow-sm transition-transform',
+                repairOnExport ? 'translate-x-[18px]' : 'translate-x-0.5'
+              )}
+            />
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
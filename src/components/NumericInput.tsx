@@ -0,0 +1,108 @@
+import { useRef, useState } from 'react'
+import { cn } from '../lib/utils'
+import { evaluateQuantity } from '../lib/expressions'
+import type { UnitSystem } from '../lib/units'
+
+interface NumericInputProps {
+  value: number
+  onChange: (value: number) => void
+  min: number
+  max: number
+  step: number
+  /** The display unit of a length; typed suffixes (`1in`, `3mm`) are converted into it. Omit for other values. */
+  unit?: UnitSystem
+  /** Round committed values onto the `step` grid */
+  snap?: boolean
+  /** Decimals shown while the field isn't being edited */
+  digits?: number
+  /** Overrides `digits` for the text shown while the field isn't being edited */
+  format?: (value: number) => string
+  label?: string
+  className?: string
+}
+
+/** Full precision without float noise, for editing */
+function formatExact(value: number): string {
+  return String(Number(value.toFixed(6)))
+}
+
+/**
+ * Compact text field for an exact value. Accepts arithmetic and mixed length units
+ * (`35/2`, `1in + 3mm`), committed on Enter or blur; arrow keys nudge by `step`,
+ * ×10 with Shift and ×0.1 with Alt.
+ */
+export default function NumericInput({ value, onChange, min, max, step, unit, snap, digits = 2, format, label, className }: NumericInputProps) {
+  // Only set while the field has focus; otherwise the value is shown formatted
+  const [draft, setDraft] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Set by Escape so the blur that follows doesn't commit the abandoned draft
+  const cancelled = useRef(false)
+
+  const normalize = (v: number) => {
+    const snapped = snap ? min + Math.round((v - min) / step) * step : v
+    return Number(Math.min(max, Math.max(min, snapped)).toFixed(6))
+  }
+
+  const commit = () => {
+    if (draft === null) return
+    try {
+      const next = normalize(evaluateQuantity(draft, unit ?? null))
+      if (next !== value) onChange(next)
+      setDraft(formatExact(next))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const nudge = (direction: 1 | -1, e: React.KeyboardEvent) => {
+    const factor = e.shiftKey ? 10 : e.altKey ? 0.1 : 1
+    const next = normalize(value + direction * step * factor)
+    onChange(next)
+    setDraft(formatExact(next))
+    setError(null)
+  }
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      aria-label={label}
+      aria-invalid={!!error}
+      title={error ?? undefined}
+      value={draft ?? (format ? format(value) : step >= 1 && Number.isInteger(value) ? String(value) : value.toFixed(digits))}
+      onFocus={(e) => {
+        setDraft(formatExact(value))
+        e.target.select()
+      }}
+      onChange={(e) => {
+        setDraft(e.target.value)
+        setError(null)
+      }}
+      onBlur={() => {
+        // Malformed input is dropped rather than left behind in an unfocused field
+        if (!cancelled.current) commit()
+        cancelled.current = false
+        setDraft(null)
+        setError(null)
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          commit()
+        } else if (e.key === 'Escape') {
+          cancelled.current = true
+          e.currentTarget.blur()
+        } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+          e.preventDefault()
+          nudge(e.key === 'ArrowUp' ? 1 : -1, e)
+        }
+      }}
+      className={cn(
+        'w-20 h-6 px-1.5 rounded-md border border-transparent bg-transparent text-right font-mono text-[11px] outline-none transition-colors',
+        'hover:border-border/50 focus:border-ring focus:bg-background',
+        'aria-invalid:border-destructive aria-invalid:text-destructive',
+        className
+      )}
+    />
+  )
+}
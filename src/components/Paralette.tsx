@@ -1,25 +1,33 @@
 import { useMemo, useEffect, useCallback, useRef } from 'react'
 import * as THREE from 'three'
-import type { ThreeEvent } from '@react-three/fiber'
 import type { ProjectParams } from '../projects'
-import type { PartOverrides, ProjectHandle, PartBaseDimensions } from '../types'
+import type { PartOverrides, ProjectHandle, PartBaseDimensions, PartState } from '../types'
 import { usePartInteraction, type PartData } from '../hooks/usePartInteraction'
+import { useGeometryJob } from '../hooks/useGeometryJob'
+import { infillConfigFromParams, offsetPolygon, polygonToShape } from '../lib/infill'
+import { latticeConfigFromParams } from '../lib/lattice'
+import type { GeometryJob } from '../lib/geometry-jobs'
+import { booleanParam, numberParam } from '../lib/params'
 
-interface PartData {
-  id: string
-  type: 'frame'
-  overrides: PartOverrides
-}
+type ParalettePartType = 'frame' | 'web'
 
 interface ParaletteProps {
   params: ProjectParams
   onParamsChange: (p: ProjectParams) => void
   onSelectionChange?: (ids: Set<string>) => void
   handleRef?: React.MutableRefObject<ProjectHandle | null>
+  partState?: PartState
+  onPartStateChange?: (state: PartState) => void
+  onBuildError?: (error: string | null) => void
 }
 
 const DEFAULT_OVERRIDES: PartOverrides = { scaleX: 1, scaleY: 1, scaleZ: 1, bevelRadius: 0, bevelSegments: 1 }
 
+const INITIAL_PARTS: PartData<ParalettePartType>[] = [
+  { id: 'frame', type: 'frame', overrides: { ...DEFAULT_OVERRIDES } },
+  { id: 'web', type: 'web', overrides: { ...DEFAULT_OVERRIDES } },
+]
+
 /**
  * Compute the intersection point of two 2D lines.
  * Line 1: p1 + t * d1
@@ -131,123 +139,43 @@ function buildRoundedPolygonPath(
   return pts
 }
 
-export default function Paralette({ params, onSelectionChange, handleRef }: ParaletteProps) {
+export default function Paralette({ params, onSelectionChange, handleRef, partState, onPartStateChange, onBuildError }: ParaletteProps) {
   const groupRef = useRef<THREE.Group>(null)
   const modelRef = useRef<THREE.Group>(null)
 
-  const W = params.baseWidth
-  const H = params.triangleHeight
-  const T = params.barThickness
-  const depth = params.depth
-  const gripDia = params.gripDiameter
-  const footR = params.footRadius
-  const footH = params.footHeight
+  const W = numberParam(params, 'baseWidth')
+  const H = numberParam(params, 'triangleHeight')
+  const T = numberParam(params, 'barThickness')
+  const depth = numberParam(params, 'depth')
+  const gripDia = numberParam(params, 'gripDiameter')
+  const footR = numberParam(params, 'footRadius')
+  const footH = numberParam(params, 'footHeight')
   const roughness = 0.5
   const metalness = 0.1
 
-  const [parts, setParts] = useState<PartData[]>([])
-  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
-  const [hoveredId, setHoveredId] = useState<string | null>(null)
-
-  useEffect(() => {
-    setParts([
-      { id: 'frame', type: 'frame', overrides: { ...DEFAULT_OVERRIDES } },
-    ])
-    setSelectedIds(new Set())
-  }, [])
-
-  const deleteSelected = useCallback(() => {
-    if (selectedIds.size > 0) {
-      setParts(prev => prev.filter(p => !selectedIds.has(p.id)))
-      setSelectedIds(new Set())
-    }
-  }, [selectedIds])
-
-  const getGroup = useCallback(() => modelRef.current, [])
-  const getPartOverrides = useCallback(
-    (id: string) => parts.find(p => p.id === id)?.overrides, [parts]
-  )
-  const updatePartOverrides = useCallback((ids: Set<string>, partial: Partial<PartOverrides>) => {
-    setParts(prev => prev.map(p => (ids.has(p.id) ? { ...p, overrides: { ...p.overrides, ...partial } } : p)))
-  }, [])
-  const getAllPartOverrides = useCallback((): Record<string, PartOverrides> => {
-    const r: Record<string, PartOverrides> = {}
-    for (const p of parts) r[p.id] = p.overrides
-    return r
-  }, [parts])
-
-  useEffect(() => {
-    if (handleRef) {
-      handleRef.current = { selectedIds, deleteSelected, getGroup, getPartOverrides, updatePartOverrides, getAllPartOverrides }
-    }
-  }, [handleRef, selectedIds, deleteSelected, getGroup, getPartOverrides, updatePartOverrides, getAllPartOverrides])
-
-  useEffect(() => { onSelectionChange?.(selectedIds) }, [selectedIds, onSelectionChange])
-
-  useEffect(() => {
-    const handler = (e: KeyboardEvent) => {
-      if (e.key === 'Delete' || e.key === 'Backspace') {
-        if ((e.target as HTMLElement)?.tagName === 'INPUT') return
-        deleteSelected()
-      }
-    }
-    window.addEventListener('keydown', handler)
-    return () => window.removeEventListener('keydown', handler)
-  }, [deleteSelected])
-
-  const onSelect = useCallback((id: string, e: ThreeEvent<MouseEvent>) => {
-    e.stopPropagation()
-    const isMulti = e.nativeEvent.metaKey || e.nativeEvent.ctrlKey
-    setSelectedIds(prev => {
-      if (isMulti) {
-        const next = new Set(prev)
-        next.has(id) ? next.delete(id) : next.add(id)
-        return next
-      }
-      return prev.size === 1 && prev.has(id) ? new Set() : new Set([id])
-    })
-  }, [])
-
-  const onHover = useCallback((id: string, e: ThreeEvent<PointerEvent>) => {
-    e.stopPropagation()
-    setHoveredId(id)
-    document.body.style.cursor = 'pointer'
-  }, [])
-
-  const onUnhover = useCallback(() => {
-    setHoveredId(null)
-    document.body.style.cursor = 'default'
-  }, [])
-
-  const pointerDownPos = useRef<{ x: number; y: number } | null>(null)
-  const onCanvasPointerDown = useCallback((e: ThreeEvent<PointerEvent>) => {
-    pointerDownPos.current = { x: e.nativeEvent.clientX, y: e.nativeEvent.clientY }
-  }, [])
-  const onCanvasClick = useCallback((e: ThreeEvent<MouseEvent>) => {
-    if (pointerDownPos.current) {
-      const dx = e.nativeEvent.clientX - pointerDownPos.current.x
-      const dy = e.nativeEvent.clientY - pointerDownPos.current.y
-      if (dx * dx + dy * dy > 25) return
-    }
-    setSelectedIds(new Set())
-  }, [])
-
-  function matColor(id: string) {
-    if (selectedIds.has(id)) return '#ff6b6b'
-    if (hoveredId === id) return '#a0c4ff'
-    return '#4488cc'
-  }
+  const {
+    parts, selectedIds,
+    deleteSelected, getGroup, getPartOverrides, updatePartOverrides, getAllPartOverrides, getPartState,
+    onSelect, onHover, onUnhover, onCanvasPointerDown, onCanvasClick,
+    matColor, hasPart, partOv,
+  } = usePartInteraction<ParalettePartType>({
+    initialParts: INITIAL_PARTS,
+    modelRef,
+    onSelectionChange,
+    partState,
+    onPartStateChange,
+  })
 
   // ── Derived values ──
   const hw = W / 2
   const gripInnerR = gripDia / 2
-  // Disc outer radius: directly controlled via parameter
-  const discR = params.discRadius
+  // Disc outer radius: derived from the grip hole and bar unless the user overrides it
+  const discR = numberParam(params, 'discRadius')
   // Moderate bevel for softened edges matching reference
   const bevelR = Math.min(T, depth) * 0.2
 
-  // ── Frame geometry: ExtrudeGeometry with 2D triangular frame profile ──
-  const frameGeo = useMemo(() => {
+  // ── Frame profile: 2D triangular frame outline plus the inner opening (used by the web infill) ──
+  const frameResult = useMemo(() => {
     try {
       const halfT = T / 2
       const legLen = Math.sqrt(hw * hw + H * H)
@@ -464,51 +392,86 @@ export default function Paralette({ params, onSelectionChange, handleRef }: Para
       gripHole.absarc(0, H, gripInnerR, 0, Math.PI * 2, true)
       shape.holes.push(gripHole)
 
-      // ── Extrude with small bevel for subtle edge rounding ──
-      const extrudedGeo = new THREE.ExtrudeGeometry(shape, {
-        depth: depth,
-        bevelEnabled: true,
-        bevelThickness: bevelR,
-        bevelSize: bevelR,
-        bevelOffset: 0,
-        bevelSegments: 3,
-      })
-
-      // Center along Z axis.
-      // ExtrudeGeometry with bevel spans from z = -bevelR to z = depth + bevelR,
-      // so its geometric center is at z = depth/2 (bevel is symmetric, cancels out).
-      extrudedGeo.translate(0, 0, -depth / 2)
-      extrudedGeo.computeVertexNormals()
-
-      return extrudedGeo
+      return { profile: { shape, innerPts }, error: null }
     } catch (err) {
-      console.warn('ExtrudeGeometry failed for paralette frame:', err)
-      return new THREE.BoxGeometry(W, H, depth)
+      console.warn('Building paralette frame profile failed:', err)
+      return { profile: null, error: err instanceof Error ? err.message : String(err) }
     }
-  }, [W, H, T, depth, hw, gripInnerR, bevelR, footR, footH, discR])
+  }, [H, T, hw, gripInnerR, footR, footH, discR])
+  const frameProfile = frameResult.profile
+
+  // ── Frame geometry: extrude the profile with small bevel for subtle edge rounding ──
+  const frameGeo = useMemo(() => {
+    if (!frameProfile) return null
+    const extrudedGeo = new THREE.ExtrudeGeometry(frameProfile.shape, {
+      depth: depth,
+      bevelEnabled: true,
+      bevelThickness: bevelR,
+      bevelSize: bevelR,
+      bevelOffset: 0,
+      bevelSegments: 3,
+    })
+
+    // Center along Z axis.
+    // ExtrudeGeometry with bevel spans from z = -bevelR to z = depth + bevelR,
+    // so its geometric center is at z = depth/2 (bevel is symmetric, cancels out).
+    extrudedGeo.translate(0, 0, -depth / 2)
+    extrudedGeo.computeVertexNormals()
+
+    return extrudedGeo
+  }, [frameProfile, depth, bevelR])
+
+  // ── Lattice frame: hollowed profile with a 3D lattice inside, falling back to the solid frame ──
+  const latticeEnabled = booleanParam(params, 'frameLattice')
+  const latticeConfig = useMemo(
+    () => latticeConfigFromParams(params, depth, bevelR),
+    [params, depth, bevelR],
+  )
+  const frameLatticeJob = useMemo((): GeometryJob | null => {
+    if (!latticeEnabled || !frameProfile) return null
+    return { kind: 'lattice', shape: frameProfile.shape.toJSON(), config: latticeConfig }
+  }, [latticeEnabled, frameProfile, latticeConfig])
+  const { geometry: frameLatticeGeo, error: frameLatticeError } = useGeometryJob(frameLatticeJob)
+  const frameMeshGeo = (latticeEnabled && frameLatticeGeo) || frameGeo
+
+  // ── Web geometry: shared infill clipped to the inner opening, when enabled ──
+  const webEnabled = booleanParam(params, 'frameInfill')
+  const infillConfig = useMemo(
+    () => infillConfigFromParams(params, depth),
+    [params, depth],
+  )
+  const webJob = useMemo((): GeometryJob | null => {
+    if (!webEnabled || !frameProfile) return null
+    // Grow the opening slightly so the web bonds with the frame bars
+    const bounds = polygonToShape(offsetPolygon(frameProfile.innerPts, T * 0.15))
+    return { kind: 'infill', shape: bounds.toJSON(), config: infillConfig }
+  }, [webEnabled, frameProfile, T, infillConfig])
+  const { geometry: webGeo, error: webError } = useGeometryJob(webJob)
+
+  const buildError = frameResult.error ? `Frame failed to build: ${frameResult.error}`
+    : frameLatticeError ? `Frame lattice failed to build: ${frameLatticeError}`
+    : webError ? `Web infill failed to build: ${webError}`
+    : null
+  useEffect(() => {
+    onBuildError?.(buildError)
+  }, [onBuildError, buildError])
 
   const getPartBaseDimensions = useCallback((id: string): PartBaseDimensions | null => {
     const part = parts.find((p) => p.id === id)
     if (!part) return null
-    const geoMap: Record<string, THREE.BufferGeometry | null> = {
-      frame: frameGeo,
-      grip: gripTubeGeo,
-      'foot-left': footGeo,
-      'foot-right': footGeo,
-    }
-    const geo = geoMap[part.type]
+    const geo = part.type === 'frame' ? frameGeo : webGeo
     if (!geo) return null
     geo.computeBoundingBox()
     const box = geo.boundingBox!
     return { x: box.max.x - box.min.x, y: box.max.y - box.min.y, z: box.max.z - box.min.z }
-  }, [parts, frameGeo, gripTubeGeo, footGeo])
+  }, [parts, frameGeo, webGeo])
 
   // Expose handle to parent
   useEffect(() => {
     if (handleRef) {
-      handleRef.current = { selectedIds, deleteSelected, getGroup, getPartOverrides, updatePartOverrides, getAllPartOverrides, getPartBaseDimensions }
+      handleRef.current = { selectedIds, deleteSelected, getGroup, getPartOverrides, updatePartOverrides, getAllPartOverrides, getPartBaseDimensions, getPartState }
     }
-  }, [handleRef, selectedIds, deleteSelected, getGroup, getPartOverrides, updatePartOverrides, getAllPartOverrides, getPartBaseDimensions])
+  }, [handleRef, selectedIds, deleteSelected, getGroup, getPartOverrides, updatePartOverrides, getAllPartOverrides, getPartBaseDimensions, getPartState])
 
   return (
     <group ref={groupRef} onPointerDown={onCanvasPointerDown} onClick={onCanvasClick}>
@@ -519,11 +482,11 @@ export default function Paralette({ params, onSelectionChange, handleRef }: Para
 
       <group ref={modelRef} position={[0, -H / 2, 0]}>
         {/* Frame — Extruded flat-plate 2D profile */}
-        {hasPart('frame') && (() => {
+        {hasPart('frame') && frameMeshGeo && (() => {
           const ov = partOv('frame') ?? DEFAULT_OVERRIDES
           return (
             <mesh
-              geometry={frameGeo}
+              geometry={frameMeshGeo}
               scale={[ov.scaleX, ov.scaleY, ov.scaleZ]}
               onClick={(e) => onSelect('frame', e)}
               onPointerOver={(e) => onHover('frame', e)}
@@ -534,7 +497,21 @@ export default function Paralette({ params, onSelectionChange, handleRef }: Para
           )
         })()}
 
-
+        {/* Web — infill across the inner opening */}
+        {hasPart('web') && webGeo && (() => {
+          const ov = partOv('web') ?? DEFAULT_OVERRIDES
+          return (
+            <mesh
+              geometry={webGeo}
+              scale={[ov.scaleX, ov.scaleY, ov.scaleZ]}
+              onClick={(e) => onSelect('web', e)}
+              onPointerOver={(e) => onHover('web', e)}
+              onPointerOut={onUnhover}
+            >
+              <meshStandardMaterial color={matColor('web', '#4488cc')} roughness={roughness} metalness={metalness} />
+            </mesh>
+          )
+        })()}
       </group>
     </group>
   )
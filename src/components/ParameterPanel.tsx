@@ -1,22 +1,62 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { Slider } from '@/components/ui/slider'
 import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs'
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from '@/components/ui/dialog'
-import { Download, ChevronLeft, ChevronRight } from 'lucide-react'
-import type { ProjectParams, ReferenceImage } from '../projects'
-import type { ParamDef } from '../types'
-import type { UnitSystem } from '../lib/units'
-import { unitSuffix, scaleParamDef } from '../lib/units'
+import { Download, ChevronDown, ChevronLeft, ChevronRight, Save, FolderOpen, Magnet, ShieldCheck, SquareFunction, Table, X } from 'lucide-react'
+import type { ProjectParams, ProjectPreset, ReferenceImage } from '../projects'
+import type { NumberParamDef, ParamConstraint, ParamDef, ParamValue } from '../types'
+import type { InchFraction, UnitSystem } from '../lib/units'
+import { formatLength, unitSuffix, scaleParamDef, UNIT_SYSTEMS } from '../lib/units'
+import { checkConstraints } from '../lib/constraints'
+import { evaluateExpression, type ParamExpression, type ParsedExpression } from '../lib/expressions'
+import { useInfillTiles } from '../hooks/useInfillTiles'
+import { cn } from '../lib/utils'
+import { booleanParam, enumOptions, isNumberParam, isParamEnabled, isParamVisible, numberParam, stringParam } from '../lib/params'
+import InfillTileLibrary from './InfillTileLibrary'
+import PresetPicker from './PresetPicker'
+import ExpressionInput from './ExpressionInput'
+import NumericInput from './NumericInput'
 
 interface ParameterPanelProps {
   params: ProjectParams
   onChange: (params: ProjectParams) => void
   paramDefs: ParamDef[]
-  onExportSTL: () => void
+  constraints?: ParamConstraint[]
+  /** Params computed from others, authored or typed in by the user */
+  expressions?: Record<string, ParamExpression>
+  expressionErrors?: Record<string, string>
+  /** Set (or with null, remove) the user's expression for a param; `value` sets it plainly instead */
+  onExpressionChange: (key: string, source: string | null, value?: number) => void
+  projectId: string
+  defaultParams: ProjectParams
+  presets?: ProjectPreset[]
+  onExportSTL: () => Promise<void>
   onExportGLB: () => Promise<void>
+  /** Open the design table, for exporting a family of variants */
+  onOpenDesignTable: () => void
+  /** Open the mesh integrity check */
+  onCheckMesh: () => void
+  /** Exports go through the mesh repair pass */
+  repairOnExport: boolean
+  /** Exports union the parts into one solid */
+  mergeOnExport: boolean
+  onMergeOnExportChange: (merge: boolean) => void
+  /** Shown under the export buttons, e.g. when merging fell back to separate bodies */
+  exportError?: string | null
   unit: UnitSystem
   onUnitChange: (unit: UnitSystem) => void
+  /** Label inch lengths as fractions */
+  inchFraction: InchFraction
+  onInchFractionChange: (fraction: InchFraction) => void
+  /** Round typed values onto each param's step */
+  snapToStep: boolean
+  onSnapToStepChange: (snap: boolean) => void
+  onSaveDesign: () => void
+  onOpenDesign: (file: File) => Promise<void>
+  /** Why the last design file couldn't be opened, if it couldn't */
+  designError?: string | null
   referenceImages?: ReferenceImage[]
 }
 
@@ -24,14 +64,40 @@ export default function ParameterPanel({
   params,
   onChange,
   paramDefs,
+  constraints,
+  expressions,
+  expressionErrors,
+  onExpressionChange,
+  projectId,
+  defaultParams,
+  presets,
   onExportSTL,
   onExportGLB,
+  onOpenDesignTable,
+  onCheckMesh,
+  repairOnExport,
+  mergeOnExport,
+  onMergeOnExportChange,
+  exportError,
   unit,
   onUnitChange,
+  inchFraction,
+  onInchFractionChange,
+  snapToStep,
+  onSnapToStepChange,
+  onSaveDesign,
+  onOpenDesign,
+  designError,
   referenceImages,
 }: ParameterPanelProps) {
-  const [exporting, setExporting] = useState(false)
+  const [exporting, setExporting] = useState<'stl' | 'glb' | null>(null)
+  const [editingExpression, setEditingExpression] = useState<string | null>(null)
+  // Groups the user opened even though none of their params currently apply
+  const [openedGroups, setOpenedGroups] = useState<Set<string>>(new Set())
+  const designInputRef = useRef<HTMLInputElement>(null)
   const [enlargedImage, setEnlargedImage] = useState<ReferenceImage | null>(null)
+  // Re-render when tiles are imported or removed, since they are fill pattern options
+  useInfillTiles()
 
   const hasRefs = referenceImages && referenceImages.length > 0
 
@@ -59,16 +125,260 @@ export default function ParameterPanel({
     return () => window.removeEventListener('keydown', handler)
   }, [enlargedImage, goToPrev, goToNext])
 
+
+  // Broken constraints are flagged under the param they bound, with a one-click fix
+  const violations = checkConstraints(params, constraints ?? [], paramDefs, unit)
+
+  const numberKeys = paramDefs.filter(isNumberParam).map((d) => d.key)
+
+  // A bare number typed into the field just sets the value, unless the param is computed by design
+  const commitExpression = (def: NumberParamDef, source: string, parsed: ParsedExpression | null) => {
+    setEditingExpression(null)
+    if (!parsed) {
+      onExpressionChange(def.key, null)
+    } else if (parsed.names.length === 0 && !def.expression) {
+      const value = evaluateExpression(parsed, () => NaN, unit)
+      if (Number.isFinite(value)) onExpressionChange(def.key, null, Math.min(def.max, Math.max(def.min, value)))
+    } else {
+      onExpressionChange(def.key, source)
+    }
+  }
+
+  // Numeric options and enums share the button-group picker
+  const renderChoices = (key: string, label: string, options: { value: ParamValue; label: string }[]) => (
+    <>
+      <Label className="text-xs text-foreground/80">{label}</Label>
+      <div className="flex flex-wrap gap-1.5">
+        {options.map((opt) => (
+          <button
+            key={String(opt.value)}
+            onClick={() => onChange({ ...params, [key]: opt.value })}
+            className={`px-3 py-1.5 text-xs rounded-lg border transition-all ${
+              params[key] === opt.value
+                ? 'bg-primary text-primary-foreground border-primary'
+                : 'bg-background hover:bg-muted border-border'
+            }`}
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+    </>
+  )
+
+  const renderNumberField = (rawDef: NumberParamDef) => {
+    const def = scaleParamDef(rawDef, unit)
+    if (def.options) return renderChoices(def.key, def.label, def.options)
+
+    const value = numberParam(params, def.key)
+    const suffix = unitSuffix(def.unitType, unit)
+    const violated = violations.some((v) => v.constraint.key === def.key)
+    const expression = expressions?.[def.key]
+    const expressionError = expressionErrors?.[def.key]
+    const format = (v: number) => def.unitType === 'length'
+      ? formatLength(v, unit, inchFraction)
+      : def.step >= 1 ? String(Math.round(v)) : v.toFixed(2)
+    return (
+      <>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-1">
+            <Label className="text-xs text-foreground/80">{def.label}</Label>
+            <button
+              onClick={() => setEditingExpression(editingExpression === def.key ? null : def.key)}
+              title="Type a value or an expression"
+              className={cn(
+                'p-0.5 rounded transition-colors',
+                expression ? 'text-primary' : 'text-muted-foreground/40 hover:text-foreground'
+              )}
+            >
+              <SquareFunction className="size-3" />
+            </button>
+          </div>
+          <span
+            className={cn(
+              'flex items-center font-mono text-[11px]',
+              violated ? 'text-destructive' : expression ? 'text-primary' : 'text-muted-foreground'
+            )}
+          >
+            {expression ? (
+              format(value)
+            ) : (
+              <NumericInput
+                value={value}
+                onChange={(v) => onChange({ ...params, [def.key]: v })}
+                min={def.min}
+                max={def.max}
+                step={def.step}
+                unit={def.unitType === 'length' ? unit : undefined}
+                // Counts can't be fractional, so they snap either way
+                snap={snapToStep || def.unitType === 'count'}
+                format={format}
+                label={def.label}
+                className="w-16"
+              />
+            )}
+            {suffix && <span className="text-muted-foreground/60 ml-0.5">{suffix}</span>}
+          </span>
+        </div>
+        {editingExpression === def.key ? (
+          <ExpressionInput
+            initial={expression?.source ?? String(Number(value.toFixed(4)))}
+            paramKeys={numberKeys.filter((k) => k !== def.key)}
+            onCommit={(source, parsed) => commitExpression(def, source, parsed)}
+            onCancel={() => setEditingExpression(null)}
+          />
+        ) : expression ? (
+          // Computed values replace the slider
+          <div className="flex items-center justify-between gap-2 px-2 py-1 rounded-md bg-muted/50 font-mono text-[11px] text-muted-foreground">
+            <span className="truncate" title={expression.source}>
+              = {expression.source}
+              {expression.unit !== unit && <span className="text-muted-foreground/60"> ({expression.unit})</span>}
+            </span>
+            {expression.source !== def.expression && (
+              <button
+                onClick={() => onExpressionChange(def.key, null)}
+                title={def.expression ? 'Restore the built-in expression' : 'Remove expression'}
+                className="shrink-0 p-0.5 rounded hover:bg-muted hover:text-foreground transition-colors"
+              >
+                <X className="size-3" />
+              </button>
+            )}
+          </div>
+        ) : (
+          <Slider
+            min={def.min}
+            max={def.max}
+            step={def.step}
+            value={[value]}
+            onValueChange={([v]) => onChange({ ...params, [def.key]: v })}
+          />
+        )}
+        {expressionError && <p className="text-[11px] text-destructive">{expressionError}</p>}
+      </>
+    )
+  }
+
+  const renderField = (def: Exclude<ParamDef, NumberParamDef>) => {
+    const inputId = `param-${def.key}`
+    switch (def.kind) {
+      case 'enum':
+        return renderChoices(def.key, def.label, enumOptions(def))
+      case 'boolean': {
+        const on = booleanParam(params, def.key)
+        return (
+          <div className="flex items-center justify-between">
+            <Label htmlFor={inputId} className="text-xs text-foreground/80">{def.label}</Label>
+            <button
+              id={inputId}
+              role="switch"
+              aria-checked={on}
+              onClick={() => onChange({ ...params, [def.key]: !on })}
+              className={cn(
+                'relative inline-flex h-5 w-9 shrink-0 items-center rounded-full border transition-colors',
+                on ? 'bg-primary border-primary' : 'bg-muted border-border'
+              )}
+            >
+              <span
+                className={cn(
+                  'size-3.5 rounded-full bg-background shadow-sm transition-transform',
+                  on ? 'translate-x-[18px]' : 'translate-x-0.5'
+                )}
+              />
+            </button>
+          </div>
+        )
+      }
+      case 'color': {
+        const color = stringParam(params, def.key) || '#000000'
+        return (
+          <div className="flex items-center justify-between">
+            <Label htmlFor={inputId} className="text-xs text-foreground/80">{def.label}</Label>
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-[11px] text-muted-foreground">{color}</span>
+              <input
+                id={inputId}
+                type="color"
+                value={color}
+                onChange={(e) => onChange({ ...params, [def.key]: e.target.value })}
+                className="h-6 w-8 cursor-pointer rounded border border-border bg-transparent p-0.5"
+              />
+            </div>
+          </div>
+        )
+      }
+      case 'string':
+        return (
+          <>
+            <Label htmlFor={inputId} className="text-xs text-foreground/80">{def.label}</Label>
+            <Input
+              id={inputId}
+              value={stringParam(params, def.key)}
+              maxLength={def.maxLength}
+              placeholder={def.placeholder}
+              onChange={(e) => onChange({ ...params, [def.key]: e.target.value })}
+              className="h-8 text-xs"
+            />
+          </>
+        )
+    }
+  }
+
+  // Params whose conditions don't hold are left out; a group with none left is dropped
   const groups = paramDefs.reduce<Record<string, ParamDef[]>>((acc, p) => {
+    if (!isParamVisible(p, params)) return acc
     if (!acc[p.group]) acc[p.group] = []
     acc[p.group].push(p)
     return acc
   }, {})
 
+  const presetPicker = (
+    <PresetPicker
+      key={projectId}
+      projectId={projectId}
+      defaultParams={defaultParams}
+      builtInPresets={presets}
+      paramDefs={paramDefs}
+      params={params}
+      unit={unit}
+      onChange={onChange}
+    />
+  )
+
   const unitSelector = (
-    <div className="flex items-center justify-end">
+    <div className="flex items-center justify-end gap-2">
+      <button
+        onClick={() => onSnapToStepChange(!snapToStep)}
+        aria-pressed={snapToStep}
+        title={snapToStep ? 'Typed values snap to each slider step' : 'Typed values are kept exact'}
+        className={`mr-auto flex items-center gap-1 px-2 py-1 text-[11px] font-medium rounded-md transition-all ${
+          snapToStep
+            ? 'bg-primary text-primary-foreground shadow-sm'
+            : 'bg-muted/50 text-muted-foreground hover:text-foreground'
+        }`}
+      >
+        <Magnet className="size-3" />
+        Snap
+      </button>
+      {unit === 'in' && (
+        <div className="flex items-center gap-1 bg-muted/50 rounded-lg p-0.5">
+          {(['decimal', 16, 32] as const).map((f) => (
+            <button
+              key={f}
+              onClick={() => onInchFractionChange(f)}
+              title={f === 'decimal' ? 'Show inches as decimals' : `Round labels to the nearest 1/${f}"`}
+              className={`px-2 py-1 text-[11px] font-medium rounded-md transition-all ${
+                inchFraction === f
+                  ? 'bg-primary text-primary-foreground shadow-sm'
+                  : 'text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {f === 'decimal' ? '0.00' : `1/${f}`}
+            </button>
+          ))}
+        </div>
+      )}
       <div className="flex items-center gap-1 bg-muted/50 rounded-lg p-0.5">
-        {(['mm', 'cm'] as const).map((u) => (
+        {UNIT_SYSTEMS.map((u) => (
           <button
             key={u}
             onClick={() => onUnitChange(u)}
@@ -87,81 +397,162 @@ export default function ParameterPanel({
 
   const parametersContent = (
     <>
-      {Object.entries(groups).map(([group, defs], i) => (
-        <div key={group} className="space-y-4">
-          {i > 0 && <div className="h-px bg-border/30" />}
-          <p className="text-[11px] font-medium text-muted-foreground/70 uppercase tracking-widest">{group}</p>
-          {defs.map((rawDef) => {
-            const def = scaleParamDef(rawDef, unit)
-            const suffix = unitSuffix(def.unitType, unit)
-            return (
-              <div key={def.key} className="space-y-2">
-                {def.options ? (
-                  <>
-                    <Label className="text-xs text-foreground/80">{def.label}</Label>
-                    <div className="flex flex-wrap gap-1.5">
-                      {def.options.map((opt) => (
-                        <button
-                          key={opt.value}
-                          onClick={() => onChange({ ...params, [def.key]: opt.value })}
-                          className={`px-3 py-1.5 text-xs rounded-lg border transition-all ${
-                            params[def.key] === opt.value
-                              ? 'bg-primary text-primary-foreground border-primary'
-                              : 'bg-background hover:bg-muted border-border'
-                          }`}
-                        >
-                          {opt.label}
-                        </button>
-                      ))}
-                    </div>
-                  </>
-                ) : (
-                  <>
-                    <Label className="text-xs flex justify-between text-foreground/80">
-                      <span>{def.label}</span>
-                      <span className="text-muted-foreground font-mono text-[11px]">
-                        {def.step >= 1 ? Math.round(params[def.key]) : params[def.key].toFixed(2)}
-                        {suffix && <span className="text-muted-foreground/60 ml-0.5">{suffix}</span>}
-                      </span>
-                    </Label>
-                    <Slider
-                      min={def.min}
-                      max={def.max}
-                      step={def.step}
-                      value={[params[def.key]]}
-                      onValueChange={([v]) => onChange({ ...params, [def.key]: v })}
-                    />
-                  </>
-                )}
+      {Object.entries(groups).map(([group, defs], i) => {
+        // A group whose params are all disabled starts collapsed
+        const inactive = defs.every((d) => !isParamEnabled(d, params))
+        const collapsed = inactive && !openedGroups.has(group)
+        return (
+          <div key={group} className="space-y-4">
+            {i > 0 && <div className="h-px bg-border/30" />}
+            {inactive ? (
+              <button
+                onClick={() => setOpenedGroups((prev) => {
+                  const next = new Set(prev)
+                  if (!next.delete(group)) next.add(group)
+                  return next
+                })}
+                className="flex w-full items-center justify-between text-[11px] font-medium text-muted-foreground/70 uppercase tracking-widest hover:text-foreground transition-colors"
+              >
+                {group}
+                <span className="flex items-center gap-1 normal-case tracking-normal">
+                  Not in use
+                  {collapsed ? <ChevronRight className="size-3.5" /> : <ChevronDown className="size-3.5" />}
+                </span>
+              </button>
+            ) : (
+              <p className="text-[11px] font-medium text-muted-foreground/70 uppercase tracking-widest">{group}</p>
+            )}
+            {!collapsed && defs.map((def) => (
+              <div
+                key={def.key}
+                inert={!isParamEnabled(def, params)}
+                className={cn('space-y-2', !isParamEnabled(def, params) && 'opacity-40')}
+              >
+                {isNumberParam(def) ? renderNumberField(def) : renderField(def)}
+                {violations.filter((v) => v.constraint.key === def.key).map(({ constraint, fix }) => (
+                  <p key={constraint.message} className="flex items-center justify-between gap-2 text-[11px] text-destructive">
+                    <span>{constraint.message}</span>
+                    {fix && (
+                      <button
+                        onClick={() => onChange(fix)}
+                        className="shrink-0 px-2 py-0.5 rounded-md border border-destructive/40 hover:bg-destructive/10 transition-colors"
+                      >
+                        Fix
+                      </button>
+                    )}
+                  </p>
+                ))}
               </div>
-            )
-          })}
+            ))}
+            {!collapsed && group === 'Infill' && defs.some((d) => d.key === 'fillPattern') && (
+              <InfillTileLibrary
+                pattern={params.fillPattern}
+                onPatternChange={(pattern) => onChange({ ...params, fillPattern: pattern })}
+              />
+            )}
+          </div>
+        )
+      })}
+
+      {/* Design file section */}
+      <div className="border-t border-border/50 pt-4 space-y-3">
+        <p className="text-[11px] font-medium text-muted-foreground/70 uppercase tracking-widest">Design File</p>
+        <div className="flex gap-2">
+          <button
+            onClick={onSaveDesign}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium rounded-lg border border-border/50 bg-background hover:bg-muted transition-all"
+          >
+            <Save className="size-3.5" />
+            Save
+          </button>
+          <button
+            onClick={() => designInputRef.current?.click()}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium rounded-lg border border-border/50 bg-background hover:bg-muted transition-all"
+          >
+            <FolderOpen className="size-3.5" />
+            Open
+          </button>
+          <input
+            ref={designInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) onOpenDesign(file)
+              e.target.value = ''
+            }}
+          />
         </div>
-      ))}
+        {designError && <p className="text-[11px] text-destructive">{designError}</p>}
+      </div>
 
       {/* Export section */}
       <div className="border-t border-border/50 pt-4 space-y-3">
         <p className="text-[11px] font-medium text-muted-foreground/70 uppercase tracking-widest">Export</p>
         <div className="flex gap-2">
           <button
-            onClick={onExportSTL}
-            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium rounded-lg border border-border/50 bg-background hover:bg-muted transition-all"
+            disabled={exporting !== null}
+            onClick={async () => {
+              setExporting('stl')
+              try { await onExportSTL() } finally { setExporting(null) }
+            }}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium rounded-lg border border-border/50 bg-background hover:bg-muted disabled:opacity-40 transition-all"
           >
             <Download className="size-3.5" />
-            .stl
+            {exporting === 'stl' ? '...' : '.stl'}
           </button>
           <button
-            disabled={exporting}
+            disabled={exporting !== null}
             onClick={async () => {
-              setExporting(true)
-              try { await onExportGLB() } finally { setExporting(false) }
+              setExporting('glb')
+              try { await onExportGLB() } finally { setExporting(null) }
             }}
             className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium rounded-lg border border-border/50 bg-background hover:bg-muted disabled:opacity-40 transition-all"
           >
             <Download className="size-3.5" />
-            {exporting ? '...' : '.glb'}
+            {exporting === 'glb' ? '...' : '.glb'}
+          </button>
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="merge-on-export" className="text-xs text-foreground/80">Merge into one solid</Label>
+          <button
+            id="merge-on-export"
+            role="switch"
+            aria-checked={mergeOnExport}
+            title="Union overlapping parts into a single watertight body"
+            onClick={() => onMergeOnExportChange(!mergeOnExport)}
+            className={cn(
+              'relative inline-flex h-5 w-9 shrink-0 items-center rounded-full border transition-colors',
+              mergeOnExport ? 'bg-primary border-primary' : 'bg-muted border-border'
+            )}
+          >
+            <span
+              className={cn(
+                'size-3.5 rounded-full bg-background shadow-sm transition-transform',
+                mergeOnExport ? 'translate-x-[18px]' : 'translate-x-0.5'
+              )}
+            />
+          </button>
+        </div>
+        {exportError && <p className="text-[11px] text-destructive">{exportError}</p>}
+        <div className="flex gap-2">
+          <button
+            onClick={onOpenDesignTable}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium rounded-lg border border-border/50 bg-background hover:bg-muted transition-all"
+          >
+            <Table className="size-3.5" />
+            Design table…
+          </button>
+          <button
+            onClick={onCheckMesh}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium rounded-lg border border-border/50 bg-background hover:bg-muted transition-all"
+          >
+            <ShieldCheck className="size-3.5" />
+            Check mesh…
           </button>
         </div>
+        {repairOnExport && <p className="text-[11px] text-muted-foreground">Meshes are repaired on export</p>}
       </div>
     </>
   )
@@ -202,6 +593,7 @@ export default function ParameterPanel({
             </div>
             <TabsContent value="parameters" className="space-y-5 mt-4">
               {unitSelector}
+              {presetPicker}
               {parametersContent}
             </TabsContent>
             <TabsContent value="reference" className="mt-4">
@@ -211,6 +603,7 @@ export default function ParameterPanel({
         ) : (
           <div className="space-y-5">
             {unitSelector}
+            {presetPicker}
             {parametersContent}
           </div>
         )}
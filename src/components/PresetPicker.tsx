@@ -0,0 +1,176 @@
+import { useState, useMemo } from 'react'
+import { Save, Pencil, Trash2, RefreshCw, Check, X } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { ProjectParams, ProjectPreset } from '../projects'
+import type { ParamDef, ParamValue } from '../types'
+import type { UnitSystem } from '../lib/units'
+import { addPreset, updatePreset, renamePreset, deletePreset, resolvePresetParams } from '../lib/presets'
+import { useUserPresets } from '../hooks/usePresets'
+
+interface PresetPickerProps {
+  projectId: string
+  defaultParams: ProjectParams
+  builtInPresets?: ProjectPreset[]
+  paramDefs: ParamDef[]
+  params: ProjectParams
+  unit: UnitSystem
+  onChange: (params: ProjectParams) => void
+}
+
+interface PresetOption {
+  key: string
+  name: string
+  params: ProjectParams
+  /** Set for the user's own presets, which can be renamed, updated and deleted */
+  userId?: number
+}
+
+function sameValue(a: ParamValue | undefined, b: ParamValue | undefined): boolean {
+  if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a))
+  return a === b
+}
+
+function sameParams(a: ProjectParams, b: ProjectParams, paramDefs: ParamDef[]): boolean {
+  return paramDefs.every((d) => sameValue(a[d.key], b[d.key]))
+}
+
+const actionClass = 'flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-lg border border-border/50 bg-background hover:bg-muted transition-all'
+
+export default function PresetPicker({
+  projectId,
+  defaultParams,
+  builtInPresets,
+  paramDefs,
+  params,
+  unit,
+  onChange,
+}: PresetPickerProps) {
+  const userPresets = useUserPresets(projectId)
+  const [lastUserId, setLastUserId] = useState<number | null>(null)
+  const [editing, setEditing] = useState<{ mode: 'save' } | { mode: 'rename'; id: number } | null>(null)
+  const [name, setName] = useState('')
+
+  const options = useMemo((): PresetOption[] => [
+    { key: 'default', name: 'Default', params: resolvePresetParams(defaultParams, { name: 'Default', params: {} }, paramDefs, unit) },
+    ...(builtInPresets ?? []).map((p, i) => ({
+      key: `builtin:${i}`,
+      name: p.name,
+      params: resolvePresetParams(defaultParams, p, paramDefs, unit),
+    })),
+    ...userPresets.map((p) => ({
+      key: `user:${p.id}`,
+      name: p.name,
+      params: resolvePresetParams(defaultParams, p, paramDefs, unit),
+      userId: p.id,
+    })),
+  ], [defaultParams, builtInPresets, userPresets, paramDefs, unit])
+
+  // The preset whose values the sliders currently show, if any
+  const active = options.find((o) => sameParams(o.params, params, paramDefs))
+  const lastUser = userPresets.find((p) => p.id === lastUserId)
+
+  const select = (key: string) => {
+    const option = options.find((o) => o.key === key)
+    if (!option) return
+    setLastUserId(option.userId ?? null)
+    setEditing(null)
+    onChange({ ...params, ...option.params })
+  }
+
+  const confirm = () => {
+    const trimmed = name.trim()
+    if (!trimmed || !editing) return
+    if (editing.mode === 'save') {
+      const preset = addPreset(projectId, trimmed, params, paramDefs, unit)
+      setLastUserId(preset.id)
+    } else {
+      renamePreset(editing.id, trimmed)
+    }
+    setEditing(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs text-foreground/80">Preset</Label>
+      <select
+        value={active?.key ?? 'custom'}
+        onChange={(e) => select(e.target.value)}
+        className="w-full h-8 px-2 text-xs rounded-lg border border-border bg-background text-foreground outline-none focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+      >
+        {!active && <option value="custom">Custom</option>}
+        <optgroup label="Built-in">
+          {options.filter((o) => o.userId === undefined).map((o) => (
+            <option key={o.key} value={o.key}>{o.name}</option>
+          ))}
+        </optgroup>
+        {userPresets.length > 0 && (
+          <optgroup label="My presets">
+            {options.filter((o) => o.userId !== undefined).map((o) => (
+              <option key={o.key} value={o.key}>{o.name}</option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+
+      {editing ? (
+        <div className="flex items-center gap-1.5">
+          <Input
+            autoFocus
+            value={name}
+            placeholder="Preset name"
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') confirm()
+              else if (e.key === 'Escape') setEditing(null)
+            }}
+            className="h-8 text-xs"
+          />
+          <button onClick={confirm} disabled={!name.trim()} className={`${actionClass} disabled:opacity-40`} title="Confirm">
+            <Check className="size-3.5" />
+          </button>
+          <button onClick={() => setEditing(null)} className={actionClass} title="Cancel">
+            <X className="size-3.5" />
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-1.5">
+          <button
+            onClick={() => {
+              setName('')
+              setEditing({ mode: 'save' })
+            }}
+            className={actionClass}
+          >
+            <Save className="size-3.5" />
+            Save as…
+          </button>
+          {!active && lastUser && (
+            <button onClick={() => updatePreset(lastUser.id, params, paramDefs, unit)} className={actionClass}>
+              <RefreshCw className="size-3.5" />
+              Update “{lastUser.name}”
+            </button>
+          )}
+          {active?.userId !== undefined && (
+            <>
+              <button
+                onClick={() => {
+                  setName(active.name)
+                  setEditing({ mode: 'rename', id: active.userId! })
+                }}
+                className={actionClass}
+              >
+                <Pencil className="size-3.5" />
+                Rename
+              </button>
+              <button onClick={() => deletePreset(active.userId!)} className={actionClass}>
+                <Trash2 className="size-3.5" />
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
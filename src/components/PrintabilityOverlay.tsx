@@ -0,0 +1,35 @@
+import { useEffect, useMemo } from 'react'
+import * as THREE from 'three'
+import { PRINT_ISSUE_KINDS, PRINT_ISSUE_STYLES, type PrintAnalysis } from '../lib/printability'
+
+/**
+ * Shades the flagged triangles over the model. It sits at the scene root, apart from the
+ * project's group, so exports never include it.
+ */
+export default function PrintabilityOverlay({ analysis }: { analysis: PrintAnalysis }) {
+  const geometries = useMemo(() => PRINT_ISSUE_KINDS.map((kind) => {
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.BufferAttribute(analysis.triangles[kind], 3))
+    return { kind, geometry }
+  }), [analysis])
+
+  useEffect(() => () => geometries.forEach(({ geometry }) => geometry.dispose()), [geometries])
+
+  return (
+    <group renderOrder={1}>
+      {geometries.map(({ kind, geometry }) => (
+        <mesh key={kind} geometry={geometry} raycast={() => null}>
+          <meshBasicMaterial
+            color={PRINT_ISSUE_STYLES[kind].color}
+            side={THREE.DoubleSide}
+            transparent
+            opacity={0.75}
+            polygonOffset
+            polygonOffsetFactor={-1}
+            polygonOffsetUnits={-4}
+          />
+        </mesh>
+      ))}
+    </group>
+  )
+}
@@ -0,0 +1,143 @@
+import { Loader2, ScanSearch, X } from 'lucide-react'
+import { Label } from '@/components/ui/label'
+import {
+  PRINT_ISSUE_KINDS, PRINT_ISSUE_STYLES,
+  type ParamPrintIssue, type PrintAnalysis, type PrintIssueKind, type PrintSettings,
+} from '../lib/printability'
+import { convertValue, formatLength, type InchFraction, type UnitSystem } from '../lib/units'
+import NumericInput from './NumericInput'
+
+interface PrintabilityPanelProps {
+  /** Null while the first analysis is running */
+  analysis: PrintAnalysis | null
+  paramIssues: ParamPrintIssue[]
+  settings: PrintSettings
+  onSettingsChange: (settings: PrintSettings) => void
+  unit: UnitSystem
+  inchFraction: InchFraction
+  /** Set a param to a printable value */
+  onFix: (key: string, value: number) => void
+  onClose: () => void
+}
+
+const fixButtonClass = 'px-2 py-0.5 text-[11px] font-medium rounded-md border border-border/50 bg-background hover:bg-muted transition-all'
+
+/** Printer settings for the printability overlay, and a summary of what it found */
+export default function PrintabilityPanel({
+  analysis,
+  paramIssues,
+  settings,
+  onSettingsChange,
+  unit,
+  inchFraction,
+  onFix,
+  onClose,
+}: PrintabilityPanelProps) {
+  const toUnit = (mm: number) => convertValue(mm, 'length', 'mm', unit)
+  const toMm = (value: number) => convertValue(value, 'length', unit, 'mm')
+  const length = (value: number) => `${formatLength(value, unit, inchFraction)} ${unit}`
+
+  const summary = (kind: PrintIssueKind): string => {
+    if (!analysis) return '…'
+    switch (kind) {
+      case 'overhang': {
+        const share = analysis.totalArea > 0 ? (analysis.area.overhang / analysis.totalArea) * 100 : 0
+        return share > 0 ? `${share.toFixed(1)}% of the surface` : 'None'
+      }
+      case 'thinWall':
+        return analysis.thinnestWall !== null ? `Thinnest ${length(analysis.thinnestWall)}` : 'None'
+      case 'smallFeature':
+        return analysis.smallFeatures > 0
+          ? `${analysis.smallFeatures} piece${analysis.smallFeatures === 1 ? '' : 's'}`
+          : 'None'
+    }
+  }
+
+  const lengthSetting = (label: string, key: 'nozzleDiameter' | 'minFeatureSize', min: number, max: number) => (
+    <Label className="flex items-center justify-between gap-2 text-xs text-foreground/80">
+      {label}
+      <span className="flex items-center font-mono text-[11px]">
+        <NumericInput
+          value={toUnit(settings[key])}
+          onChange={(v) => onSettingsChange({ ...settings, [key]: toMm(v) })}
+          min={toUnit(min)}
+          max={toUnit(max)}
+          step={toUnit(0.05)}
+          unit={unit}
+          format={(v) => formatLength(v, unit, inchFraction)}
+          label={label}
+          className="w-16"
+        />
+        <span className="text-muted-foreground/60 ml-0.5">{unit}</span>
+      </span>
+    </Label>
+  )
+
+  return (
+    <div className="w-72 bg-background/90 backdrop-blur border rounded-xl p-4 space-y-3 animate-in fade-in duration-150">
+      <div className="flex items-center gap-2">
+        <ScanSearch className="size-3.5 text-muted-foreground" />
+        <span className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">Printability</span>
+        {!analysis && <Loader2 className="size-3.5 animate-spin text-muted-foreground" />}
+        <button
+          onClick={onClose}
+          title="Hide the analysis"
+          className="ml-auto p-1 rounded text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+        >
+          <X className="size-3.5" />
+        </button>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="flex items-center justify-between gap-2 text-xs text-foreground/80">
+          Overhang limit
+          <span className="flex items-center font-mono text-[11px]">
+            <NumericInput
+              value={settings.overhangAngle}
+              onChange={(v) => onSettingsChange({ ...settings, overhangAngle: v })}
+              min={0}
+              max={89}
+              step={1}
+              snap
+              label="Overhang limit"
+              className="w-16"
+            />
+            <span className="text-muted-foreground/60 ml-0.5">°</span>
+          </span>
+        </Label>
+        {lengthSetting('Nozzle diameter', 'nozzleDiameter', 0.1, 2)}
+        {lengthSetting('Min feature size', 'minFeatureSize', 0.1, 10)}
+      </div>
+
+      <ul className="space-y-1 border-t border-border/50 pt-3 text-xs">
+        {PRINT_ISSUE_KINDS.map((kind) => (
+          <li key={kind} className="flex items-center gap-2">
+            <span className="size-2.5 rounded-sm" style={{ backgroundColor: PRINT_ISSUE_STYLES[kind].color }} />
+            <span className="text-foreground/80">{PRINT_ISSUE_STYLES[kind].label}</span>
+            <span className="ml-auto font-mono text-[11px] text-muted-foreground">{summary(kind)}</span>
+          </li>
+        ))}
+      </ul>
+      {analysis && analysis.wallSampling > 1 && (
+        <p className="text-[11px] text-muted-foreground">
+          Large model: walls were checked on 1 in {analysis.wallSampling} faces.
+        </p>
+      )}
+
+      {paramIssues.length > 0 && (
+        <div className="space-y-1.5 border-t border-border/50 pt-3">
+          <span className="text-[11px] text-muted-foreground">Thinner than the nozzle</span>
+          {paramIssues.map(({ def, value, fix }) => (
+            <div key={def.key} className="flex items-center gap-2 text-xs">
+              <span className="text-foreground/80">{def.label}</span>
+              <span className="ml-auto font-mono text-[11px] text-destructive">{length(value)}</span>
+              <button onClick={() => onFix(def.key, fix)} title={`Set to ${length(fix)}`} className={fixButtonClass}>
+                Fix
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
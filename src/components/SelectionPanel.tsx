@@ -1,7 +1,8 @@
 import { Slider } from '@/components/ui/slider'
 import { Label } from '@/components/ui/label'
+import NumericInput from './NumericInput'
 import type { PartOverrides, ProjectHandle, PartBaseDimensions } from '../types'
-import type { UnitSystem } from '../lib/units'
+import { formatLength, type InchFraction, type UnitSystem } from '../lib/units'
 
 interface SelectionPanelProps {
   partLabel: string
@@ -11,6 +12,9 @@ interface SelectionPanelProps {
   onDelete: () => void
   handleRef: React.MutableRefObject<ProjectHandle | null>
   unit: UnitSystem
+  inchFraction: InchFraction
+  /** Round typed values onto each field's step */
+  snapToStep: boolean
 }
 
 const DEFAULT_DISPLAY: PartOverrides = { scaleX: 1.0, scaleY: 1.0, scaleZ: 1.0, bevelRadius: 0.4, bevelSegments: 3 }
@@ -52,6 +56,8 @@ export default function SelectionPanel({
   onDelete,
   handleRef,
   unit,
+  inchFraction,
+  snapToStep,
 }: SelectionPanelProps) {
   const selectionCount = selectedIds.size
   const displayOverrides = getDisplayOverrides(selectedIds, partOverrides)
@@ -83,20 +89,34 @@ export default function SelectionPanel({
               const scaleKey = `scale${axis.toUpperCase()}` as keyof Pick<PartOverrides, 'scaleX' | 'scaleY' | 'scaleZ'>
               const baseDim = baseDims![axis]
               const currentDim = baseDim * displayOverrides[scaleKey]
+              const minDim = Math.max(0.1, baseDim * 0.1)
+              const maxDim = baseDim * 3.0
+              const stepDim = baseDim * 0.01
               const label = axis === 'x' ? 'Width' : axis === 'y' ? 'Height' : 'Depth'
               return (
                 <div key={axis} className="space-y-2">
                   <Label className="text-xs flex justify-between text-foreground/80">
                     <span>{label}</span>
-                    <span className="text-muted-foreground font-mono text-[11px]">
-                      {currentDim.toFixed(1)}
+                    <span className="flex items-center text-muted-foreground font-mono text-[11px]">
+                      <NumericInput
+                        value={currentDim}
+                        onChange={(v) => onPartOverridesChange(selectedIds, { [scaleKey]: v / baseDim })}
+                        min={minDim}
+                        max={maxDim}
+                        step={stepDim}
+                        unit={unit}
+                        snap={snapToStep}
+                        format={(v) => formatLength(v, unit, inchFraction, 1)}
+                        label={label}
+                        className="w-16"
+                      />
                       <span className="text-muted-foreground/60 ml-0.5">{unit}</span>
                     </span>
                   </Label>
                   <Slider
-                    min={Math.max(0.1, baseDim * 0.1)}
-                    max={baseDim * 3.0}
-                    step={baseDim * 0.01}
+                    min={minDim}
+                    max={maxDim}
+                    step={stepDim}
                     value={[currentDim]}
                     onValueChange={([v]) => onPartOverridesChange(selectedIds, { [scaleKey]: v / baseDim })}
                   />
@@ -112,7 +132,16 @@ export default function SelectionPanel({
                 <div key={axis} className="space-y-2">
                   <Label className="text-xs flex justify-between text-foreground/80">
                     <span>Scale {axis}</span>
-                    <span className="text-muted-foreground font-mono text-[11px]">{displayOverrides[key].toFixed(2)}</span>
+                    <NumericInput
+                      value={displayOverrides[key]}
+                      onChange={(v) => onPartOverridesChange(selectedIds, { [key]: v })}
+                      min={0.1}
+                      max={3.0}
+                      step={0.05}
+                      snap={snapToStep}
+                      label={`Scale ${axis}`}
+                      className="text-muted-foreground"
+                    />
                   </Label>
                   <Slider
                     min={0.1}
@@ -136,7 +165,16 @@ export default function SelectionPanel({
         <div className="space-y-2">
           <Label className="text-xs flex justify-between text-foreground/80">
             <span>Bevel Radius</span>
-            <span className="text-muted-foreground font-mono text-[11px]">{displayOverrides.bevelRadius.toFixed(2)}</span>
+            <NumericInput
+              value={displayOverrides.bevelRadius}
+              onChange={(v) => onPartOverridesChange(selectedIds, { bevelRadius: v })}
+              min={0}
+              max={1.0}
+              step={0.05}
+              snap={snapToStep}
+              label="Bevel Radius"
+              className="text-muted-foreground"
+            />
           </Label>
           <Slider
             min={0}
@@ -149,7 +187,17 @@ export default function SelectionPanel({
         <div className="space-y-2">
           <Label className="text-xs flex justify-between text-foreground/80">
             <span>Bevel Segments</span>
-            <span className="text-muted-foreground font-mono text-[11px]">{Math.round(displayOverrides.bevelSegments)}</span>
+            <NumericInput
+              value={Math.round(displayOverrides.bevelSegments)}
+              onChange={(v) => onPartOverridesChange(selectedIds, { bevelSegments: v })}
+              min={1}
+              max={8}
+              step={1}
+              // A count, so it snaps either way
+              snap
+              label="Bevel Segments"
+              className="text-muted-foreground"
+            />
           </Label>
           <Slider
             min={1}
@@ -0,0 +1,83 @@
+import { useState } from 'react'
+import { History } from 'lucide-react'
+import { Dialog, DialogContent, DialogTitle, DialogDescription, DialogHeader, DialogFooter } from '@/components/ui/dialog'
+import { projects } from '../projects'
+import type { SessionSnapshot } from '../lib/session-store'
+import { cn } from '../lib/utils'
+
+interface SessionRestoreDialogProps {
+  /** Autosaved snapshots, newest first */
+  snapshots: SessionSnapshot[]
+  onRestore: (snapshot: SessionSnapshot) => void
+  onDismiss: () => void
+}
+
+function describe(snapshot: SessionSnapshot): string {
+  const { design } = snapshot
+  const project = projects.find((p) => p.id === design.activeProjectId)
+  const deleted = Object.values(design.projects).reduce((n, p) => n + (p.parts?.deleted.length ?? 0), 0)
+  const parts = [project?.name ?? design.activeProjectId, design.unit]
+  if (deleted > 0) parts.push(`${deleted} deleted part${deleted === 1 ? '' : 's'}`)
+  return parts.join(' · ')
+}
+
+export default function SessionRestoreDialog({ snapshots, onRestore, onDismiss }: SessionRestoreDialogProps) {
+  const [selectedId, setSelectedId] = useState(snapshots[0]?.id)
+  const selected = snapshots.find((s) => s.id === selectedId)
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onDismiss()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="size-4" />
+            Restore previous session?
+          </DialogTitle>
+          <DialogDescription>
+            Your work was autosaved. Pick a snapshot to restore, or start fresh with the defaults.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {snapshots.map((s, i) => (
+            <button
+              key={s.id}
+              onClick={() => setSelectedId(s.id)}
+              className={cn(
+                'w-full text-left px-3 py-2 rounded-lg text-sm transition-colors',
+                s.id === selectedId ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+              )}
+            >
+              <div className="font-medium">
+                {new Date(s.savedAt).toLocaleString()}
+                {i === 0 && <span className="ml-2 text-xs font-normal opacity-70">latest</span>}
+              </div>
+              <div
+                className={cn(
+                  'text-xs',
+                  s.id === selectedId ? 'text-primary-foreground/70' : 'text-muted-foreground'
+                )}
+              >
+                {describe(s)}
+              </div>
+            </button>
+          ))}
+        </div>
+        <DialogFooter>
+          <button
+            onClick={onDismiss}
+            className="px-3 py-2 text-xs font-medium rounded-lg border border-border/50 bg-background hover:bg-muted transition-all"
+          >
+            Start fresh
+          </button>
+          <button
+            disabled={!selected}
+            onClick={() => selected && onRestore(selected)}
+            className="px-3 py-2 text-xs font-medium rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-40 transition-all"
+          >
+            Restore
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
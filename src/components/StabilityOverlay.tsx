@@ -0,0 +1,50 @@
+import { useMemo } from 'react'
+import { Line } from '@react-three/drei'
+import { STABILITY_COLORS, type StabilityAnalysis } from '../lib/stability'
+
+/**
+ * The center of mass, a plumb line down to its ground projection, and the support polygon
+ * on the floor, with the edge it tips over first drawn heavier. Like the printability
+ * overlay it sits at the scene root, outside exports.
+ */
+export default function StabilityOverlay({ analysis, stable }: { analysis: StabilityAnalysis; stable: boolean }) {
+  const { centerOfMass: [x, y, z], groundY, support, weakestEdge, size } = analysis
+  const color = STABILITY_COLORS[stable ? 'stable' : 'unstable']
+  // Just above the floor, so the lines don't flicker against the feet
+  const floor = groundY + size * 1e-3
+  const marker = size * 0.012
+
+  const outline = useMemo(
+    () => support.length > 1
+      ? [...support, support[0]].map(([px, pz]) => [px, floor, pz] as [number, number, number])
+      : null,
+    [support, floor]
+  )
+  const weakest = outline && weakestEdge >= 0 ? outline.slice(weakestEdge, weakestEdge + 2) : null
+
+  return (
+    <group renderOrder={2}>
+      <mesh position={[x, y, z]} raycast={() => null}>
+        <sphereGeometry args={[marker, 16, 12]} />
+        <meshBasicMaterial color={color} depthTest={false} transparent />
+      </mesh>
+      <Line
+        points={[[x, y, z], [x, floor, z]]}
+        color={color}
+        lineWidth={1.5}
+        dashed
+        dashSize={marker * 1.5}
+        gapSize={marker}
+        depthTest={false}
+        transparent
+        raycast={() => null}
+      />
+      <mesh position={[x, floor, z]} rotation={[-Math.PI / 2, 0, 0]} raycast={() => null}>
+        <ringGeometry args={[marker * 0.8, marker * 1.4, 24]} />
+        <meshBasicMaterial color={color} depthTest={false} transparent />
+      </mesh>
+      {outline && <Line points={outline} color={color} lineWidth={2} raycast={() => null} />}
+      {weakest && <Line points={weakest} color={color} lineWidth={5} raycast={() => null} />}
+    </group>
+  )
+}
@@ -0,0 +1,118 @@
+import { Loader2, TriangleAlert, Weight, X } from 'lucide-react'
+import { Label } from '@/components/ui/label'
+import { isStable, STABILITY_COLORS, type StabilityAnalysis } from '../lib/stability'
+import { formatLength, type InchFraction, type UnitSystem } from '../lib/units'
+import NumericInput from './NumericInput'
+
+interface StabilityPanelProps {
+  /** Null while the model is being measured */
+  analysis: StabilityAnalysis | null
+  /** Params changed since the model last stood steady, when it no longer does */
+  tippedBy: string[]
+  /** Degrees of tilt the model must take without tipping */
+  minTippingAngle: number
+  onMinTippingAngleChange: (angle: number) => void
+  unit: UnitSystem
+  inchFraction: InchFraction
+  onClose: () => void
+}
+
+/** Center of mass, footprint and tipping angle of the model, with a warning when it tips too easily */
+export default function StabilityPanel({
+  analysis,
+  tippedBy,
+  minTippingAngle,
+  onMinTippingAngleChange,
+  unit,
+  inchFraction,
+  onClose,
+}: StabilityPanelProps) {
+  const length = (value: number) => `${formatLength(value, unit, inchFraction)} ${unit}`
+  const stable = analysis ? isStable(analysis, minTippingAngle) : true
+
+  const rows: [string, string][] = []
+  if (analysis) {
+    const xs = analysis.support.map(([x]) => x)
+    const zs = analysis.support.map(([, z]) => z)
+    rows.push(
+      ['Center of mass height', length(analysis.centerOfMass[1] - analysis.groundY)],
+      ['Footprint', analysis.support.length >= 3
+        ? `${formatLength(Math.max(...xs) - Math.min(...xs), unit, inchFraction)} × ${length(Math.max(...zs) - Math.min(...zs))}`
+        : 'Point or edge'],
+      ['Tipping angle', `${analysis.tippingAngle.toFixed(1)}°`],
+    )
+  }
+
+  return (
+    <div className="w-72 bg-background/90 backdrop-blur border rounded-xl p-4 space-y-3 animate-in fade-in duration-150">
+      <div className="flex items-center gap-2">
+        <Weight className="size-3.5 text-muted-foreground" />
+        <span className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">Stability</span>
+        {!analysis && <Loader2 className="size-3.5 animate-spin text-muted-foreground" />}
+        <button
+          onClick={onClose}
+          title="Hide the stability check"
+          className="ml-auto p-1 rounded text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+        >
+          <X className="size-3.5" />
+        </button>
+      </div>
+
+      <Label className="flex items-center justify-between gap-2 text-xs text-foreground/80">
+        Min tipping angle
+        <span className="flex items-center font-mono text-[11px]">
+          <NumericInput
+            value={minTippingAngle}
+            onChange={onMinTippingAngleChange}
+            min={0}
+            max={45}
+            step={1}
+            snap
+            label="Minimum tipping angle"
+            className="w-16"
+          />
+          <span className="text-muted-foreground/60 ml-0.5">°</span>
+        </span>
+      </Label>
+
+      {rows.length > 0 && (
+        <table className="w-full text-xs border-t border-border/50">
+          <tbody>
+            {rows.map(([label, value]) => (
+              <tr key={label}>
+                <td className="pt-1.5 text-foreground/80">{label}</td>
+                <td className="pt-1.5 font-mono text-[11px] text-right">{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {analysis && (
+        <div className="flex items-start gap-2 border-t border-border/50 pt-3 text-xs">
+          <span
+            className="size-2.5 mt-1 shrink-0 rounded-full"
+            style={{ backgroundColor: STABILITY_COLORS[stable ? 'stable' : 'unstable'] }}
+          />
+          {stable ? (
+            <span className="text-foreground/80">Stands steady</span>
+          ) : (
+            <span className="text-destructive">
+              {analysis.tippingAngle > 0
+                ? `Tips over before the ${minTippingAngle}° it should take`
+                : analysis.support.length >= 3
+                  ? 'The center of mass is outside the footprint'
+                  : 'Balances on a point or an edge'}
+            </span>
+          )}
+        </div>
+      )}
+      {!stable && tippedBy.length > 0 && (
+        <p className="flex items-start gap-1.5 text-[11px] text-muted-foreground">
+          <TriangleAlert className="size-3 mt-0.5 shrink-0" />
+          <span>Stood steady before changing {tippedBy.join(', ')}.</span>
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+import { Loader2, Scale, X } from 'lucide-react'
+import { Label } from '@/components/ui/label'
+import type { MeshStats } from '../lib/mesh-stats'
+import {
+  MATERIALS, estimateModel, findMaterial, formatDuration, materialCost,
+  type EstimateSettings, type PrintJob,
+} from '../lib/print-estimate'
+import { convertValue, formatLength, type UnitSystem } from '../lib/units'
+import NumericInput from './NumericInput'
+
+interface StatsPanelProps {
+  /** Null while the model is being measured */
+  stats: MeshStats | null
+  settings: EstimateSettings
+  onSettingsChange: (settings: EstimateSettings) => void
+  unit: UnitSystem
+  onClose: () => void
+}
+
+const GRAMS_PER_OUNCE = 28.3495
+const MM_PER_FOOT = 304.8
+
+const selectClass = 'h-7 px-2 text-xs rounded-md border border-border/50 bg-background text-foreground outline-none focus-visible:ring-ring/50 focus-visible:ring-[3px]'
+
+/** Volume, area, mass and cost of the model, with filament and time estimates for printed materials */
+export default function StatsPanel({ stats, settings, onSettingsChange, unit, onClose }: StatsPanelProps) {
+  const material = findMaterial(settings.materialId)
+  const estimate = stats && estimateModel(stats, unit, settings)
+  const imperial = unit === 'in'
+  const toUnit = (mm: number) => convertValue(mm, 'length', 'mm', unit)
+  const toMm = (value: number) => convertValue(value, 'length', unit, 'mm')
+  const setJob = (patch: Partial<PrintJob>) => onSettingsChange({ ...settings, job: { ...settings.job, ...patch } })
+
+  const digits = unit === 'mm' ? 0 : 2
+  const rows: [string, string][] = stats && estimate
+    ? [
+        [`Volume (${unit}³)`, stats.volume.toFixed(digits)],
+        [`Surface (${unit}²)`, stats.area.toFixed(digits)],
+        ['Mass', imperial ? `${(estimate.mass / GRAMS_PER_OUNCE).toFixed(2)} oz` : `${estimate.mass.toFixed(1)} g`],
+        ['Cost', estimate.cost.toFixed(2)],
+        ...(estimate.filamentLength !== null && estimate.printTime !== null
+          ? [
+              ['Filament', imperial
+                ? `${(estimate.filamentLength / MM_PER_FOOT).toFixed(1)} ft`
+                : `${(estimate.filamentLength / 1000).toFixed(2)} m`],
+              ['Print time', `≈ ${formatDuration(estimate.printTime)}`],
+            ] satisfies [string, string][]
+          : []),
+      ]
+    : []
+
+  const setting = (label: string, input: React.ReactNode, suffix: string) => (
+    <Label className="flex items-center justify-between gap-2 text-xs text-foreground/80">
+      {label}
+      <span className="flex items-center font-mono text-[11px]">
+        {input}
+        <span className="text-muted-foreground/60 ml-0.5">{suffix}</span>
+      </span>
+    </Label>
+  )
+
+  return (
+    <div className="w-72 bg-background/90 backdrop-blur border rounded-xl p-4 space-y-3 animate-in fade-in duration-150">
+      <div className="flex items-center gap-2">
+        <Scale className="size-3.5 text-muted-foreground" />
+        <span className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">Model Stats</span>
+        {!stats && <Loader2 className="size-3.5 animate-spin text-muted-foreground" />}
+        <button
+          onClick={onClose}
+          title="Hide the stats"
+          className="ml-auto p-1 rounded text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+        >
+          <X className="size-3.5" />
+        </button>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="flex items-center justify-between gap-2 text-xs text-foreground/80">
+          Material
+          <select
+            value={material.id}
+            onChange={(e) => onSettingsChange({ ...settings, materialId: e.target.value })}
+            className={selectClass}
+          >
+            {MATERIALS.map((m) => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+        </Label>
+        {setting('Price', (
+          <NumericInput
+            value={materialCost(settings, material)}
+            onChange={(v) => onSettingsChange({ ...settings, costPerKg: { ...settings.costPerKg, [material.id]: v } })}
+            min={0}
+            max={10000}
+            step={1}
+            label="Price per kg"
+            className="w-16"
+          />
+        ), '/kg')}
+        {material.filament && (
+          <>
+            {setting('Layer height', (
+              <NumericInput
+                value={toUnit(settings.job.layerHeight)}
+                onChange={(v) => setJob({ layerHeight: toMm(v) })}
+                min={toUnit(0.04)}
+                max={toUnit(1)}
+                step={toUnit(0.02)}
+                unit={unit}
+                // Sub-millimetre, so always decimal: a fraction of an inch would round it away
+                format={(v) => formatLength(v, unit, 'decimal', 3)}
+                label="Layer height"
+                className="w-16"
+              />
+            ), unit)}
+            {setting('Infill', (
+              <NumericInput
+                value={settings.job.infill}
+                onChange={(v) => setJob({ infill: v })}
+                min={0}
+                max={100}
+                step={5}
+                digits={0}
+                label="Infill"
+                className="w-16"
+              />
+            ), '%')}
+            {setting('Print speed', (
+              <NumericInput
+                value={toUnit(settings.job.printSpeed)}
+                onChange={(v) => setJob({ printSpeed: toMm(v) })}
+                min={toUnit(5)}
+                max={toUnit(500)}
+                step={toUnit(5)}
+                unit={unit}
+                digits={unit === 'mm' ? 0 : 2}
+                label="Print speed"
+                className="w-16"
+              />
+            ), `${unit}/s`)}
+          </>
+        )}
+      </div>
+
+      {rows.length > 0 && (
+        <table className="w-full text-xs border-t border-border/50">
+          <tbody>
+            {rows.map(([label, value]) => (
+              <tr key={label}>
+                <td className="pt-1.5 text-foreground/80">{label}</td>
+                <td className="pt-1.5 font-mono text-[11px] text-right">{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {stats && (stats.meshes > 1 || material.filament) && (
+        <div className="space-y-1 text-[11px] text-muted-foreground">
+          {stats.meshes > 1 && (
+            <p>The {stats.meshes} parts are measured one by one, so where they overlap it counts twice.</p>
+          )}
+          {material.filament && (
+            <p>Infill thins the solid mesh; parts with modelled infill or lattices come out light unless it's near 100%.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
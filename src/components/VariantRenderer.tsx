@@ -0,0 +1,103 @@
+import { Suspense, useCallback, useEffect, useRef } from 'react'
+import { Canvas, useThree } from '@react-three/fiber'
+import * as THREE from 'three'
+import type { Project, ProjectParams } from '../projects'
+import type { PartState, ProjectHandle } from '../types'
+import { isGeometryBusy } from '../lib/geometry-worker'
+
+/** A variant once it has finished building */
+export interface RenderedVariant {
+  /** The built model; still holds the previous variant's geometry when `error` is set */
+  group: THREE.Group
+  /** PNG data URL */
+  thumbnail: string
+  error: string | null
+}
+
+interface VariantRendererProps {
+  project: Project
+  params: ProjectParams
+  partState?: PartState
+  /** Called once per `params`, after the geometry worker has gone quiet */
+  onRendered: (variant: RenderedVariant) => void
+}
+
+/** Frames in a row with no geometry jobs in flight before a build counts as settled */
+const SETTLE_FRAMES = 3
+const THUMBNAIL_SIZE = 160
+
+const ignoreParamsChange = () => {}
+
+function VariantCapture({
+  params,
+  handleRef,
+  errorRef,
+  onRendered,
+}: {
+  params: ProjectParams
+  handleRef: React.MutableRefObject<ProjectHandle | null>
+  errorRef: React.MutableRefObject<string | null>
+  onRendered: (variant: RenderedVariant) => void
+}) {
+  const gl = useThree((s) => s.gl)
+  const scene = useThree((s) => s.scene)
+  const camera = useThree((s) => s.camera)
+  const onRenderedRef = useRef(onRendered)
+  useEffect(() => {
+    onRenderedRef.current = onRendered
+  }, [onRendered])
+
+  useEffect(() => {
+    let idle = 0
+    let frame = requestAnimationFrame(function tick() {
+      const group = handleRef.current?.getGroup()
+      idle = group && !isGeometryBusy() ? idle + 1 : 0
+      if (!group || idle < SETTLE_FRAMES) {
+        frame = requestAnimationFrame(tick)
+        return
+      }
+      // Three-quarter view fitted to the model
+      const box = new THREE.Box3().setFromObject(group)
+      const center = box.getCenter(new THREE.Vector3())
+      const size = box.getSize(new THREE.Vector3()).length()
+      camera.position.copy(center).add(new THREE.Vector3(0.6, 0.45, 0.65).multiplyScalar(size * 1.2))
+      camera.lookAt(center)
+      gl.render(scene, camera)
+      onRenderedRef.current({ group, thumbnail: gl.domElement.toDataURL('image/png'), error: errorRef.current })
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [params, handleRef, errorRef, gl, scene, camera])
+
+  return null
+}
+
+/**
+ * Builds one variant of a project in its own off-screen canvas, so variants can be
+ * previewed and exported without touching the design on screen.
+ */
+export default function VariantRenderer({ project, params, partState, onRendered }: VariantRendererProps) {
+  const handleRef = useRef<ProjectHandle | null>(null)
+  const errorRef = useRef<string | null>(null)
+  const onBuildError = useCallback((error: string | null) => {
+    errorRef.current = error
+  }, [])
+
+  return (
+    <div aria-hidden className="fixed -left-[10000px] top-0" style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE }}>
+      <Canvas gl={{ preserveDrawingBuffer: true }} camera={{ fov: 45 }}>
+        <ambientLight intensity={0.6} />
+        <directionalLight position={[50, 80, 60]} intensity={1.2} />
+        <Suspense fallback={null}>
+          <project.component
+            params={params}
+            onParamsChange={ignoreParamsChange}
+            handleRef={handleRef}
+            partState={partState}
+            onBuildError={onBuildError}
+          />
+          <VariantCapture params={params} handleRef={handleRef} errorRef={errorRef} onRendered={onRendered} />
+        </Suspense>
+      </Canvas>
+    </div>
+  )
+}
@@ -2,8 +2,13 @@ import { useMemo, useEffect, useCallback, useRef } from 'react'
 import * as THREE from 'three'
 import type { ThreeEvent } from '@react-three/fiber'
 import type { ProjectParams } from '../projects'
-import type { PartOverrides, ProjectHandle, PartBaseDimensions } from '../types'
+import type { PartOverrides, ProjectHandle, PartBaseDimensions, PartState } from '../types'
 import { usePartInteraction, type PartData } from '../hooks/usePartInteraction'
+import { useGeometryJob } from '../hooks/useGeometryJob'
+import { infillConfigFromParams, polygonToShape } from '../lib/infill'
+import { latticeConfigFromParams } from '../lib/lattice'
+import type { GeometryJob } from '../lib/geometry-jobs'
+import { booleanParam, numberParam, stringParam } from '../lib/params'
 
 type FinType = 'base' | 'x' | 'z'
 
@@ -12,6 +17,9 @@ interface WavyStructureProps {
   onParamsChange: (p: ProjectParams) => void
   onSelectionChange?: (ids: Set<string>) => void
   handleRef?: React.MutableRefObject<ProjectHandle | null>
+  partState?: PartState
+  onPartStateChange?: (state: PartState) => void
+  onBuildError?: (error: string | null) => void
 }
 
 function waveHeight(x: number, width: number, avg: number, a: number, b: number): number {
@@ -34,6 +42,21 @@ function createWavyFinShape(width: number, avg: number, a: number, b: number): T
   return shape
 }
 
+/** Centered rectangle outline (CCW) */
+function rectOutline(width: number, depth: number): THREE.Vector2[] {
+  return [
+    new THREE.Vector2(-width / 2, -depth / 2),
+    new THREE.Vector2(width / 2, -depth / 2),
+    new THREE.Vector2(width / 2, depth / 2),
+    new THREE.Vector2(-width / 2, depth / 2),
+  ]
+}
+
+/** Transform that lays a Z-extruded, Z-centered geometry flat on the ground so the extrusion becomes its height */
+function layFlatMatrix(height: number): THREE.Matrix4 {
+  return new THREE.Matrix4().makeTranslation(0, height / 2, 0).multiply(new THREE.Matrix4().makeRotationX(-Math.PI / 2))
+}
+
 const DEFAULT_OVERRIDES: PartOverrides = { scaleX: 1.0, scaleY: 1.0, scaleZ: 1.0, bevelRadius: 0, bevelSegments: 1 }
 
 function WavyFinMesh({
@@ -87,18 +110,18 @@ function finIndex(id: string): number {
   return parseInt(id.split('-')[1], 10) || 0
 }
 
-export default function WavyStructure({ params, onSelectionChange, handleRef }: WavyStructureProps) {
+export default function WavyStructure({ params, onSelectionChange, handleRef, partState, onPartStateChange, onBuildError }: WavyStructureProps) {
   const groupRef = useRef<THREE.Group>(null)
   const modelRef = useRef<THREE.Group>(null)
-  const baseWidth = params.baseWidth
-  const baseDepth = params.baseDepth
-  const baseHeight = params.baseHeight
-  const finCount = Math.round(params.finCount)
-  const finThickness = params.finThickness
-  const waveAvg = params.waveAvg
-  const waveA = params.waveA
-  const waveB = params.waveB
-  const colorHex = '#' + Math.round(params.color).toString(16).padStart(6, '0')
+  const baseWidth = numberParam(params, 'baseWidth')
+  const baseDepth = numberParam(params, 'baseDepth')
+  const baseHeight = numberParam(params, 'baseHeight')
+  const finCount = Math.round(numberParam(params, 'finCount'))
+  const finThickness = numberParam(params, 'finThickness')
+  const waveAvg = numberParam(params, 'waveAvg')
+  const waveA = numberParam(params, 'waveA')
+  const waveB = numberParam(params, 'waveB')
+  const colorHex = stringParam(params, 'color') || '#e8e8e8'
   const roughness = 0.4
   const metalness = 0.05
 
@@ -134,12 +157,14 @@ export default function WavyStructure({ params, onSelectionChange, handleRef }:
 
   const {
     parts, selectedIds, hoveredId,
-    deleteSelected, getGroup, getPartOverrides, updatePartOverrides, getAllPartOverrides,
+    deleteSelected, getGroup, getPartOverrides, updatePartOverrides, getAllPartOverrides, getPartState,
     onSelect, onHover, onUnhover, onCanvasPointerDown, onCanvasClick,
   } = usePartInteraction<FinType>({
     initialParts,
     modelRef,
     onSelectionChange,
+    partState,
+    onPartStateChange,
     customUpdateOverrides,
   })
 
@@ -180,6 +205,60 @@ export default function WavyStructure({ params, onSelectionChange, handleRef }:
     return geo
   }, [baseDepth, finThickness, waveAvg, waveA, waveB, zBevelRadius, zBevelSegments])
 
+  // Base infill: an open rim around the plate with the shared infill across its interior
+  const baseInfillEnabled = booleanParam(params, 'baseInfill')
+  const baseRim = finThickness * 2
+  const infillConfig = useMemo(
+    () => infillConfigFromParams(params, baseHeight),
+    [params, baseHeight],
+  )
+  const baseRimGeo = useMemo(() => {
+    if (!baseInfillEnabled) return null
+    const w = baseWidth + 0.12
+    const d = baseDepth + 0.12
+    const rimShape = polygonToShape(rectOutline(w, d), [rectOutline(w - baseRim * 2, d - baseRim * 2).reverse()])
+    const rimGeo = new THREE.ExtrudeGeometry(rimShape, { depth: baseHeight, bevelEnabled: false })
+    rimGeo.translate(0, 0, -baseHeight / 2)
+    return rimGeo.applyMatrix4(layFlatMatrix(baseHeight))
+  }, [baseInfillEnabled, baseWidth, baseDepth, baseHeight, baseRim])
+  useEffect(() => () => baseRimGeo?.dispose(), [baseRimGeo])
+  const baseInfillJob = useMemo((): GeometryJob | null => {
+    if (!baseInfillEnabled) return null
+    // Let the infill run halfway into the rim so the two bond
+    const shape = polygonToShape(rectOutline(baseWidth + 0.12 - baseRim, baseDepth + 0.12 - baseRim))
+    return {
+      kind: 'infill',
+      shape: shape.toJSON(),
+      config: infillConfig,
+      matrix: layFlatMatrix(baseHeight).toArray(),
+    }
+  }, [baseInfillEnabled, baseWidth, baseDepth, baseHeight, baseRim, infillConfig])
+  const { geometry: baseInfillGeo, error: baseInfillError } = useGeometryJob(baseInfillJob)
+
+  // Base lattice: the solid plate hollowed around a 3D lattice (the open infill base takes precedence)
+  const baseLatticeEnabled = booleanParam(params, 'baseLattice') && !baseInfillEnabled
+  const latticeConfig = useMemo(
+    () => latticeConfigFromParams(params, baseHeight),
+    [params, baseHeight],
+  )
+  const baseLatticeJob = useMemo((): GeometryJob | null => {
+    if (!baseLatticeEnabled) return null
+    return {
+      kind: 'lattice',
+      shape: polygonToShape(rectOutline(baseWidth + 0.12, baseDepth + 0.12)).toJSON(),
+      config: latticeConfig,
+      matrix: layFlatMatrix(baseHeight).toArray(),
+    }
+  }, [baseLatticeEnabled, baseWidth, baseDepth, baseHeight, latticeConfig])
+  const { geometry: baseLatticeGeo, error: baseLatticeError } = useGeometryJob(baseLatticeJob)
+
+  const buildError = baseInfillError ? `Base infill failed to build: ${baseInfillError}`
+    : baseLatticeError ? `Base lattice failed to build: ${baseLatticeError}`
+    : null
+  useEffect(() => {
+    onBuildError?.(buildError)
+  }, [onBuildError, buildError])
+
   const getPartBaseDimensions = useCallback((id: string): PartBaseDimensions | null => {
     const part = parts.find((p) => p.id === id)
     if (!part) return null
@@ -195,9 +274,9 @@ export default function WavyStructure({ params, onSelectionChange, handleRef }:
   // Expose handle to parent
   useEffect(() => {
     if (handleRef) {
-      handleRef.current = { selectedIds, deleteSelected, getGroup, getPartOverrides, updatePartOverrides, getAllPartOverrides, getPartBaseDimensions }
+      handleRef.current = { selectedIds, deleteSelected, getGroup, getPartOverrides, updatePartOverrides, getAllPartOverrides, getPartBaseDimensions, getPartState }
     }
-  }, [handleRef, selectedIds, deleteSelected, getGroup, getPartOverrides, updatePartOverrides, getAllPartOverrides, getPartBaseDimensions])
+  }, [handleRef, selectedIds, deleteSelected, getGroup, getPartOverrides, updatePartOverrides, getAllPartOverrides, getPartBaseDimensions, getPartState])
 
   const xSpacing = baseDepth / (finCount - 1 || 1)
   const zSpacing = baseWidth / (finCount - 1 || 1)
@@ -216,6 +295,24 @@ export default function WavyStructure({ params, onSelectionChange, handleRef }:
           const baseHovered = hoveredId === 'base'
           const baseColor = baseSelected ? '#ff6b6b' : baseHovered ? '#a0c4ff' : colorHex
           const baseOv = parts.find((p) => p.id === 'base')?.overrides ?? DEFAULT_OVERRIDES
+          const baseGeos = baseRimGeo ? [baseRimGeo, baseInfillGeo] : baseLatticeEnabled && baseLatticeGeo ? [baseLatticeGeo] : null
+          if (baseGeos) {
+            return (
+              <group scale={[baseOv.scaleX, baseOv.scaleY, baseOv.scaleZ]}>
+                {baseGeos.map((geo, i) => geo && (
+                  <mesh
+                    key={i}
+                    geometry={geo}
+                    onClick={(e) => onSelect('base', e)}
+                    onPointerOver={(e) => onHover('base', e)}
+                    onPointerOut={onUnhover}
+                  >
+                    <meshStandardMaterial color={baseColor} roughness={roughness} metalness={metalness} />
+                  </mesh>
+                ))}
+              </group>
+            )
+          }
           return (
             <group scale={[baseOv.scaleX, baseOv.scaleY, baseOv.scaleZ]}>
               <mesh
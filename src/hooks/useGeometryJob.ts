@@ -0,0 +1,63 @@
+import { useState, useEffect, useRef, useSyncExternalStore } from 'react'
+import type * as THREE from 'three'
+import type { GeometryJob } from '../lib/geometry-jobs'
+import {
+  createChannel, submitJob, cancelChannel, isGeometryBusy, subscribeGeometryBusy,
+} from '../lib/geometry-worker'
+
+interface GeometryJobState {
+  geometry: THREE.BufferGeometry | null
+  error: string | null
+}
+
+/**
+ * Build geometry in the geometry worker. Pass a memoized job (or null for nothing);
+ * a job with different contents supersedes the previous one, and the last good geometry
+ * stays visible while the replacement is being built. Jobs are compared by value, so a
+ * config rebuilt from an unrelated param change doesn't restart the build.
+ */
+export function useGeometryJob(job: GeometryJob | null) {
+  const channelRef = useRef(0)
+  if (channelRef.current === 0) channelRef.current = createChannel()
+  const [state, setState] = useState<GeometryJobState>({ geometry: null, error: null })
+  const [pending, setPending] = useState(false)
+  const key = job && JSON.stringify(job)
+  const [submitted, setSubmitted] = useState({ key, job })
+  if (submitted.key !== key) setSubmitted({ key, job })
+
+  useEffect(() => {
+    const { job } = submitted
+    const channel = channelRef.current
+    if (!job) {
+      cancelChannel(channel)
+      setPending(false)
+      setState({ geometry: null, error: null })
+      return
+    }
+    let active = true
+    setPending(true)
+    submitJob(channel, job).then((result) => {
+      if (!active || !result) return
+      setPending(false)
+      if ('error' in result) setState((prev) => ({ geometry: prev.geometry, error: result.error }))
+      else setState({ geometry: result.geometry, error: null })
+    })
+    return () => { active = false }
+  }, [submitted])
+
+  // Free the previous geometry once it has been replaced
+  const { geometry } = state
+  useEffect(() => () => geometry?.dispose(), [geometry])
+
+  useEffect(() => {
+    const channel = channelRef.current
+    return () => cancelChannel(channel)
+  }, [])
+
+  return { geometry, error: state.error, pending }
+}
+
+/** True while any geometry job is queued or running */
+export function useGeometryBusy(): boolean {
+  return useSyncExternalStore(subscribeGeometryBusy, isGeometryBusy)
+}
@@ -0,0 +1,130 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { ProjectParams } from '../projects'
+import type { ParamDef, PartState } from '../types'
+import {
+  EMPTY_STACK, describeChange, recordChange, sameSnapshot,
+  type HistoryStack, type HistorySnapshot,
+} from '../lib/history'
+
+interface UseHistoryOptions {
+  projectId: string
+  params: ProjectParams
+  /** Live part edits of the mounted project; null until the component has reported them */
+  partState: PartState | null
+  paramDefs: ParamDef[]
+  partLabel: string
+  /** Put a project back into a recorded state */
+  apply: (projectId: string, snapshot: HistorySnapshot) => void
+}
+
+/**
+ * Undo/redo per project. Rather than wrapping every mutation in a command, the hook
+ * watches the project's params and part state and records each difference as a step,
+ * so slider drags, SelectionPanel edits and Delete-key removals are all covered.
+ */
+export function useHistory({ projectId, params, partState, paramDefs, partLabel, apply }: UseHistoryOptions) {
+  const [stacks, setStacks] = useState<Record<string, HistoryStack>>({})
+  const baselineRef = useRef<{ projectId: string; snapshot: HistorySnapshot } | null>(null)
+  // Part state reported when an undo/redo was applied. Nothing is recorded until the project
+  // reports the restored parts, which lands after the params and any derived params
+  // re-resolved from them, so whatever the restored state settles into becomes the baseline.
+  const pendingRef = useRef<{ reported: PartState } | null>(null)
+
+  useEffect(() => {
+    if (!partState) return
+    const current: HistorySnapshot = { params, parts: partState }
+    const baseline = baselineRef.current
+    if (!baseline || baseline.projectId !== projectId) {
+      baselineRef.current = { projectId, snapshot: current }
+      pendingRef.current = null
+      return
+    }
+    if (pendingRef.current) {
+      if (partState !== pendingRef.current.reported) {
+        pendingRef.current = null
+        baselineRef.current = { projectId, snapshot: current }
+      }
+      return
+    }
+    if (sameSnapshot(baseline.snapshot, current)) return
+
+    const before = baseline.snapshot
+    const change = describeChange(before, current, paramDefs, partLabel)
+    const now = performance.now()
+    setStacks((prev) => ({
+      ...prev,
+      [projectId]: recordChange(prev[projectId] ?? EMPTY_STACK, before, current, change, now),
+    }))
+    baselineRef.current = { projectId, snapshot: current }
+  }, [projectId, params, partState, paramDefs, partLabel])
+
+  const stack = stacks[projectId] ?? EMPTY_STACK
+
+  const moveTo = useCallback((next: HistoryStack, target: HistorySnapshot) => {
+    if (!partState) return
+    pendingRef.current = { reported: partState }
+    setStacks((prev) => ({ ...prev, [projectId]: next }))
+    apply(projectId, target)
+  }, [projectId, partState, apply])
+
+  const undo = useCallback(() => {
+    const entry = stack.past[stack.past.length - 1]
+    if (!entry) return
+    moveTo({ past: stack.past.slice(0, -1), future: [entry, ...stack.future] }, entry.before)
+  }, [stack, moveTo])
+
+  const redo = useCallback(() => {
+    const entry = stack.future[0]
+    if (!entry) return
+    moveTo({ past: [...stack.past, entry], future: stack.future.slice(1) }, entry.after)
+  }, [stack, moveTo])
+
+  /** Jump to the state right after the given entry, or to the initial state for null */
+  const jumpTo = useCallback((entryId: number | null) => {
+    const all = [...stack.past, ...stack.future]
+    const index = entryId === null ? -1 : all.findIndex((e) => e.id === entryId)
+    if (entryId !== null && index < 0) return
+    if (index === stack.past.length - 1) return
+    const target = index >= 0 ? all[index].after : all[0]?.before
+    if (!target) return
+    moveTo({ past: all.slice(0, index + 1), future: all.slice(index + 1) }, target)
+  }, [stack, moveTo])
+
+  /** Forget all history, e.g. after a design was loaded or the unit changed */
+  const reset = useCallback(() => {
+    setStacks({})
+    baselineRef.current = null
+    pendingRef.current = null
+  }, [])
+
+  // ── Keyboard shortcuts ──
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return
+      const tag = (e.target as HTMLElement)?.tagName
+      if (tag === 'INPUT' || tag === 'TEXTAREA') return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', handler)
+    return () => window.removeEventListener('keydown', handler)
+  }, [undo, redo])
+
+  return {
+    past: stack.past,
+    future: stack.future,
+    canUndo: stack.past.length > 0,
+    canRedo: stack.future.length > 0,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+  }
+}
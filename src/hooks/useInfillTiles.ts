@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+import { getTiles, subscribeTiles, type InfillTile } from '../lib/infill-tiles'
+
+/** The persisted SVG tile library, re-rendering when tiles are added or removed */
+export function useInfillTiles(): InfillTile[] {
+  return useSyncExternalStore(subscribeTiles, getTiles)
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react'
+import type * as THREE from 'three'
+import { useGeometryBusy } from './useGeometryJob'
+
+/**
+ * Run `analyze` over the model once the geometry worker is idle, or nothing while it is
+ * null. Pass a memoized function; `model` is anything that changes when the model may
+ * have (params, part edits), and is handed to `analyze` with the group it was built into.
+ * With `delay` (ms), a run waits until the model has stopped changing for that long. The
+ * previous result stays until the next one is ready.
+ */
+export function useModelAnalysis<T, M>(
+  getGroup: () => THREE.Group | null,
+  analyze: ((group: THREE.Group, model: M) => T) | null,
+  model: M,
+  delay = 0,
+): T | null {
+  const busy = useGeometryBusy()
+  const [result, setResult] = useState<T | null>(null)
+
+  useEffect(() => {
+    if (!analyze) {
+      setResult(null)
+      return
+    }
+    if (busy) return
+    let frame = 0
+    const timer = setTimeout(() => {
+      // Two frames, so the latest geometry has been committed to the scene
+      frame = requestAnimationFrame(() => {
+        frame = requestAnimationFrame(() => {
+          const group = getGroup()
+          setResult(group ? analyze(group, model) : null)
+        })
+      })
+    }, delay)
+    return () => {
+      clearTimeout(timer)
+      cancelAnimationFrame(frame)
+    }
+  }, [busy, getGroup, analyze, model, delay])
+
+  return result
+}
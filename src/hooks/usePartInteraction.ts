@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import type * as THREE from 'three'
 import type { ThreeEvent } from '@react-three/fiber'
-import type { PartOverrides } from '../types'
+import type { PartOverrides, PartState } from '../types'
 
 export interface PartData<T extends string = string> {
   id: string
@@ -13,6 +13,10 @@ interface UsePartInteractionOptions<T extends string> {
   initialParts: PartData<T>[]
   modelRef: React.RefObject<THREE.Group | null>
   onSelectionChange?: (ids: Set<string>) => void
+  /** Saved part edits to restore, applied on mount and whenever a new state object is passed */
+  partState?: PartState
+  /** Called with the current part edits whenever parts are edited, deleted or restored */
+  onPartStateChange?: (state: PartState) => void
   /** Override the default update logic (e.g. to propagate bevel across part types) */
   customUpdateOverrides?: (
     parts: PartData<T>[],
@@ -21,25 +25,42 @@ interface UsePartInteractionOptions<T extends string> {
   ) => PartData<T>[]
 }
 
+function applyPartState<T extends string>(parts: PartData<T>[], state?: PartState): PartData<T>[] {
+  if (!state) return parts
+  const deleted = new Set(state.deleted)
+  return parts
+    .filter((p) => !deleted.has(p.id))
+    .map((p) => {
+      const saved = state.overrides[p.id]
+      return saved ? { ...p, overrides: { ...p.overrides, ...saved } } : p
+    })
+}
+
 export function usePartInteraction<T extends string>({
   initialParts,
   modelRef,
   onSelectionChange,
+  partState,
+  onPartStateChange,
   customUpdateOverrides,
 }: UsePartInteractionOptions<T>) {
-  const [parts, setParts] = useState<PartData<T>[]>(initialParts)
+  const [parts, setParts] = useState<PartData<T>[]>(() => applyPartState(initialParts, partState))
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const [hoveredId, setHoveredId] = useState<string | null>(null)
 
-  // Re-init parts when initialParts identity changes (e.g. finCount changed)
+  // Re-init parts when initialParts identity changes (e.g. finCount changed),
+  // or restore a newly passed part state (e.g. a design file was opened)
   const prevInitRef = useRef(initialParts)
+  const prevStateRef = useRef(partState)
   useEffect(() => {
-    if (prevInitRef.current !== initialParts) {
+    if (prevInitRef.current !== initialParts || prevStateRef.current !== partState) {
+      const restoring = prevStateRef.current !== partState
       prevInitRef.current = initialParts
-      setParts(initialParts)
+      prevStateRef.current = partState
+      setParts(restoring ? applyPartState(initialParts, partState) : initialParts)
       setSelectedIds(new Set())
     }
-  }, [initialParts])
+  }, [initialParts, partState])
 
   // ── Handle-compatible callbacks ──
 
@@ -75,12 +96,21 @@ export function usePartInteraction<T extends string>({
     return r
   }, [parts])
 
-  // ── Selection change notification ──
+  const getPartState = useCallback((): PartState => ({
+    overrides: getAllPartOverrides(),
+    deleted: initialParts.filter((ip) => !parts.some((p) => p.id === ip.id)).map((p) => p.id),
+  }), [initialParts, parts, getAllPartOverrides])
+
+  // ── Change notifications ──
 
   useEffect(() => {
     onSelectionChange?.(selectedIds)
   }, [selectedIds, onSelectionChange])
 
+  useEffect(() => {
+    onPartStateChange?.(getPartState())
+  }, [getPartState, onPartStateChange])
+
   // ── Delete key handler ──
 
   useEffect(() => {
@@ -156,6 +186,7 @@ export function usePartInteraction<T extends string>({
     getPartOverrides,
     updatePartOverrides,
     getAllPartOverrides,
+    getPartState,
     // Interaction
     onSelect,
     onHover,
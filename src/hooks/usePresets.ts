@@ -0,0 +1,8 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import { getUserPresets, subscribePresets, type UserPreset } from '../lib/presets'
+
+/** The user's saved presets for one project, re-rendering when presets change */
+export function useUserPresets(projectId: string): UserPreset[] {
+  const all = useSyncExternalStore(subscribePresets, getUserPresets)
+  return useMemo(() => all.filter((p) => p.projectId === projectId), [all, projectId])
+}
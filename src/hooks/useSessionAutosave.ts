@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react'
+import type { CameraPose } from '../types'
+import { serializeDesign, type DesignState } from '../lib/design-file'
+import { saveSnapshot } from '../lib/session-store'
+
+const AUTOSAVE_DELAY_MS = 1500
+
+/**
+ * Autosave the working design to the session store shortly after it stops changing,
+ * and right away when the tab is hidden. Pass null to pause (e.g. while the restore
+ * prompt is open). The camera is read at save time since orbiting doesn't re-render.
+ */
+export function useSessionAutosave(state: Omit<DesignState, 'camera'> | null, getCamera: () => CameraPose | null) {
+  const latestRef = useRef({ state, getCamera })
+  const lastSavedRef = useRef<string | null>(null)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    latestRef.current = { state, getCamera }
+  }, [state, getCamera])
+
+  useEffect(() => {
+    const flush = () => {
+      if (timerRef.current) clearTimeout(timerRef.current)
+      timerRef.current = null
+      const { state, getCamera } = latestRef.current
+      if (!state) return
+      const design = serializeDesign({ ...state, camera: getCamera() })
+      // Skip snapshots identical to the last one so the history holds distinct states
+      const key = JSON.stringify({ ...design, savedAt: undefined })
+      if (key === lastSavedRef.current) return
+      lastSavedRef.current = key
+      saveSnapshot(design).catch((err) => console.warn('Autosave failed:', err))
+    }
+
+    if (state) timerRef.current = setTimeout(flush, AUTOSAVE_DELAY_MS)
+    const onVisibility = () => {
+      if (document.visibilityState === 'hidden') flush()
+    }
+    document.addEventListener('visibilitychange', onVisibility)
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current)
+      document.removeEventListener('visibilitychange', onVisibility)
+    }
+  }, [state])
+}
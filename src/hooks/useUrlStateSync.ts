@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useRef } from 'react'
+import type { CameraPose } from '../types'
+import { encodeUrlState, type UrlState } from '../lib/url-state'
+
+const SYNC_DELAY_MS = 250
+
+/**
+ * Mirror the shared design state into the URL hash while it changes. Uses replaceState,
+ * so slider drags don't fill the back/forward history. The camera is read at write time;
+ * call the returned function after the view moves, since orbiting doesn't re-render.
+ */
+export function useUrlStateSync(state: Omit<UrlState, 'camera'>, getCamera: () => CameraPose | null) {
+  const latestRef = useRef({ state, getCamera })
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    latestRef.current = { state, getCamera }
+  }, [state, getCamera])
+
+  const schedule = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null
+      const { state, getCamera } = latestRef.current
+      const hash = `#${encodeUrlState({ ...state, camera: getCamera() })}`
+      if (hash !== window.location.hash) {
+        window.history.replaceState(window.history.state, '', hash)
+      }
+    }, SYNC_DELAY_MS)
+  }, [])
+
+  useEffect(() => {
+    schedule()
+  }, [state, schedule])
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+  }, [])
+
+  return schedule
+}
@@ -0,0 +1,53 @@
+import type { ProjectParams } from '../projects'
+import type { NumberParamDef, ParamConstraint, ParamDef } from '../types'
+import { scaleParamDef, type UnitSystem } from './units'
+import { isNumberParam, isParamVisible } from './params'
+
+export interface ConstraintViolation {
+  constraint: ParamConstraint
+  /** Params with `constraint.key` moved to the nearest valid value, or null if none is in range */
+  fix: ProjectParams | null
+}
+
+function holds(value: number, op: ParamConstraint['op'], bound: number): boolean {
+  switch (op) {
+    case '<': return value < bound
+    case '<=': return value <= bound
+    case '>': return value > bound
+    case '>=': return value >= bound
+  }
+}
+
+/** Nearest value on the def's step grid that satisfies the constraint, if any */
+function nearestValid(def: NumberParamDef, op: ParamConstraint['op'], bound: number): number | null {
+  const upper = op === '<' || op === '<='
+  const steps = (bound - def.min) / def.step
+  let value = def.min + (upper ? Math.floor(steps) : Math.ceil(steps)) * def.step
+  if (!holds(value, op, bound)) value += upper ? -def.step : def.step
+  value = Number(value.toFixed(6))
+  if (value < def.min - 1e-9 || value > def.max + 1e-9) return null
+  return holds(value, op, bound) ? value : null
+}
+
+/** Every constraint the params (in `unit`) currently break. Hidden params don't shape the model, so they're skipped. */
+export function checkConstraints(
+  params: ProjectParams,
+  constraints: ParamConstraint[],
+  paramDefs: ParamDef[],
+  unit: UnitSystem,
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = []
+  for (const constraint of constraints) {
+    const value = params[constraint.key]
+    const other = params[constraint.other]
+    const minus = constraint.minus ? params[constraint.minus.key] : 0
+    if (typeof value !== 'number' || typeof other !== 'number' || typeof minus !== 'number') continue
+    const bound = other * (constraint.factor ?? 1) - minus * (constraint.minus?.factor ?? 1)
+    if (holds(value, constraint.op, bound)) continue
+    const rawDef = paramDefs.find((d) => d.key === constraint.key)
+    if (rawDef && !isParamVisible(rawDef, params)) continue
+    const fixed = rawDef && isNumberParam(rawDef) ? nearestValid(scaleParamDef(rawDef, unit), constraint.op, bound) : null
+    violations.push({ constraint, fix: fixed === null ? null : { ...params, [constraint.key]: fixed } })
+  }
+  return violations
+}
@@ -0,0 +1,179 @@
+import { projects, type ProjectParams } from '../projects'
+import type { CameraPose, LightingMode, ParamDef, PartOverrides, PartState } from '../types'
+import { convertParams, UNIT_SYSTEMS, type UnitSystem } from './units'
+import { triggerDownload } from './export'
+import { coerceParamValue, isNumberParam } from './params'
+import type { ParamExpression } from './expressions'
+
+export const DESIGN_FILE_FORMAT = 'three3d-design'
+export const DESIGN_FILE_VERSION = 3
+export const DESIGN_FILE_EXTENSION = '.three3d.json'
+
+/** Everything in the app that makes up a design, in memory */
+export interface DesignState {
+  activeProjectId: string
+  unit: UnitSystem
+  lightingMode: LightingMode
+  camera: CameraPose | null
+  paramsMap: Record<string, ProjectParams>
+  partStates: Record<string, PartState>
+  /** Expressions the user typed into param fields, per project */
+  expressions: Record<string, Record<string, ParamExpression>>
+}
+
+/** On-disk document. Params are stored in `unit`, like the sliders show them. */
+export interface DesignFile {
+  format: typeof DESIGN_FILE_FORMAT
+  version: number
+  savedAt: string
+  activeProjectId: string
+  unit: UnitSystem
+  lightingMode: LightingMode
+  camera: CameraPose | null
+  projects: Record<string, { params: ProjectParams; parts: PartState; expressions: Record<string, ParamExpression> }>
+}
+
+/**
+ * Upgrades keyed on the version they upgrade from: MIGRATIONS[n] turns a version n
+ * document into version n + 1. Add an entry whenever DESIGN_FILE_VERSION is bumped.
+ */
+const MIGRATIONS: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2 lets params hold booleans and strings. The v1 number encodings (0/1 toggles,
+  // option indices, 0xRRGGBB colors) are still understood by coerceParamValue.
+  1: (doc) => ({ ...doc, version: 2 }),
+  // v3 saves typed expressions with each project; older documents simply have none
+  2: (doc) => ({ ...doc, version: 3 }),
+}
+
+const LIGHTING_MODES: LightingMode[] = ['default', 'edge', 'studio', 'dramatic']
+const OVERRIDE_KEYS: (keyof PartOverrides)[] = ['scaleX', 'scaleY', 'scaleZ', 'bevelRadius', 'bevelSegments']
+
+const EMPTY_PART_STATE: PartState = { overrides: {}, deleted: [] }
+
+export function serializeDesign(state: DesignState): DesignFile {
+  const files: DesignFile['projects'] = {}
+  for (const p of projects) {
+    const params = state.paramsMap[p.id]
+    if (!params) continue
+    files[p.id] = { params, parts: state.partStates[p.id] ?? EMPTY_PART_STATE, expressions: state.expressions[p.id] ?? {} }
+  }
+  return {
+    format: DESIGN_FILE_FORMAT,
+    version: DESIGN_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    activeProjectId: state.activeProjectId,
+    unit: state.unit,
+    lightingMode: state.lightingMode,
+    camera: state.camera,
+    projects: files,
+  }
+}
+
+export function downloadDesignFile(state: DesignState, filename: string) {
+  const json = JSON.stringify(serializeDesign(state), null, 2)
+  triggerDownload(new Blob([json], { type: 'application/json' }), `${filename}${DESIGN_FILE_EXTENSION}`)
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v)
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v)
+
+function readVec3(v: unknown): [number, number, number] | null {
+  return Array.isArray(v) && v.length === 3 && v.every(isNumber) ? [v[0], v[1], v[2]] : null
+}
+
+function readCamera(v: unknown): CameraPose | null {
+  if (!isRecord(v)) return null
+  const position = readVec3(v.position)
+  const target = readVec3(v.target)
+  return position && target ? { position, target } : null
+}
+
+/** Always a fresh object, so restoring a design re-applies part state even when it's unchanged */
+function readPartState(v: unknown): PartState {
+  if (!isRecord(v)) return { overrides: {}, deleted: [] }
+  const overrides: Record<string, PartOverrides> = {}
+  if (isRecord(v.overrides)) {
+    for (const [id, ov] of Object.entries(v.overrides)) {
+      if (isRecord(ov) && OVERRIDE_KEYS.every((k) => isNumber(ov[k]))) {
+        overrides[id] = ov as unknown as PartOverrides
+      }
+    }
+  }
+  const deleted = Array.isArray(v.deleted) ? v.deleted.filter((id): id is string => typeof id === 'string') : []
+  return { overrides, deleted }
+}
+
+/** Expressions for the project's number params; malformed sources are kept and flagged when resolved */
+function readExpressions(v: unknown, paramDefs: ParamDef[]): Record<string, ParamExpression> {
+  const expressions: Record<string, ParamExpression> = {}
+  if (!isRecord(v)) return expressions
+  for (const def of paramDefs) {
+    const expr = v[def.key]
+    if (!isNumberParam(def) || !isRecord(expr) || typeof expr.source !== 'string') continue
+    if (!UNIT_SYSTEMS.includes(expr.unit as UnitSystem)) continue
+    expressions[def.key] = { source: expr.source, unit: expr.unit as UnitSystem }
+  }
+  return expressions
+}
+
+/** Parse the text of a design file; see readDesign */
+export function parseDesignFile(text: string): DesignState {
+  let doc: unknown
+  try {
+    doc = JSON.parse(text)
+  } catch {
+    throw new Error('Not a valid JSON file')
+  }
+  return readDesign(doc)
+}
+
+/**
+ * Validate a design document, upgrading older schema versions. Projects missing
+ * from the document get their defaults; params added since it was saved get their
+ * default value. Throws with a user-facing message when the document can't be used.
+ */
+export function readDesign(doc: unknown): DesignState {
+  if (!isRecord(doc) || doc.format !== DESIGN_FILE_FORMAT) {
+    throw new Error('Not a three3d design file')
+  }
+  if (!isNumber(doc.version) || doc.version < 1) {
+    throw new Error('Design file has no valid schema version')
+  }
+  if (doc.version > DESIGN_FILE_VERSION) {
+    throw new Error(`Design file is from a newer version (schema ${doc.version}); please update the app`)
+  }
+  let file: Record<string, unknown> = doc
+  for (let v = doc.version; v < DESIGN_FILE_VERSION; v++) {
+    file = MIGRATIONS[v](file)
+  }
+
+  const unit = UNIT_SYSTEMS.includes(file.unit as UnitSystem) ? (file.unit as UnitSystem) : 'mm'
+  const lightingMode = LIGHTING_MODES.includes(file.lightingMode as LightingMode)
+    ? (file.lightingMode as LightingMode)
+    : 'default'
+  const saved = isRecord(file.projects) ? file.projects : {}
+
+  const paramsMap: Record<string, ProjectParams> = {}
+  const partStates: Record<string, PartState> = {}
+  const expressions: Record<string, Record<string, ParamExpression>> = {}
+  for (const p of projects) {
+    const defaults = convertParams(p.defaultParams, p.paramDefs, 'mm', unit)
+    const entry = saved[p.id]
+    const params: ProjectParams = { ...defaults }
+    if (isRecord(entry) && isRecord(entry.params)) {
+      for (const def of p.paramDefs) {
+        const v = coerceParamValue(def, entry.params[def.key])
+        if (v !== undefined) params[def.key] = v
+      }
+    }
+    paramsMap[p.id] = params
+    partStates[p.id] = readPartState(isRecord(entry) ? entry.parts : undefined)
+    expressions[p.id] = readExpressions(isRecord(entry) ? entry.expressions : undefined, p.paramDefs)
+  }
+
+  const activeProjectId = projects.some((p) => p.id === file.activeProjectId)
+    ? (file.activeProjectId as string)
+    : projects[0]?.id ?? ''
+
+  return { activeProjectId, unit, lightingMode, camera: readCamera(file.camera), paramsMap, partStates, expressions }
+}
@@ -0,0 +1,178 @@
+import type { ProjectParams } from '../projects'
+import type { ParamConstraint, ParamDef, ParamValue } from '../types'
+import { scaleParamDef, type UnitSystem } from './units'
+import { coerceParamValue, isNumberParam } from './params'
+import { checkConstraints } from './constraints'
+import { evaluateQuantity, resolveExpressions, type ParamExpression } from './expressions'
+
+/**
+ * A family of variants of one project, as typed: a column per param key and a row per
+ * variant. Cells keep their text (`1in`, `35/2`) until the table is resolved, and a
+ * blank cell takes the value the design currently has.
+ */
+export interface DesignTable {
+  columns: string[]
+  rows: string[][]
+}
+
+export interface ResolvedDesignTable {
+  /** One full param set per row, in `unit` */
+  variants: ProjectParams[]
+  /** Problems that would make a variant come out wrong, as `Row n: …` */
+  errors: string[]
+}
+
+// ── CSV ──
+
+/** Split CSV text into cells, honouring quoted fields. Blank lines are dropped. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  row.push(cell)
+  rows.push(row)
+  return rows.filter((r) => r.some((c) => c.trim() !== ''))
+}
+
+function csvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function designTableToCsv(table: DesignTable): string {
+  return [table.columns, ...table.rows].map((r) => r.map(csvCell).join(',')).join('\n') + '\n'
+}
+
+/** Read a CSV whose first row names the params; short rows are padded with blanks */
+export function designTableFromCsv(text: string): DesignTable {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) throw new Error('The file is empty')
+  const columns = header.map((c) => c.trim())
+  return { columns, rows: rows.map((r) => columns.map((_, i) => r[i]?.trim() ?? '')) }
+}
+
+// ── Building a table ──
+
+/** Text form of a value, as typed into a cell */
+export function formatCell(value: ParamValue | undefined): string {
+  if (value === undefined) return ''
+  if (typeof value === 'number') return String(Number(value.toFixed(4)))
+  return String(value)
+}
+
+/** A one-row table of every param, seeded with the current values */
+export function designTableFromParams(params: ProjectParams, paramDefs: ParamDef[]): DesignTable {
+  const columns = paramDefs.map((d) => d.key)
+  return { columns, rows: [columns.map((key) => formatCell(params[key]))] }
+}
+
+// ── Resolving ──
+
+function inRange(def: ParamDef, value: number, unit: UnitSystem): boolean {
+  if (!isNumberParam(def)) return true
+  const { min, max } = scaleParamDef(def, unit)
+  // Allow for float noise from unit conversion at the ends of the range
+  const eps = (max - min) * 1e-9
+  return value >= min - eps && value <= max + eps
+}
+
+/**
+ * Turn each row into a full param set: blank cells keep `base`, number cells accept
+ * arithmetic and length units, and expressions are applied on top. Unknown columns,
+ * unreadable cells, out-of-range values and broken constraints are reported.
+ */
+export function resolveDesignTable(
+  table: DesignTable,
+  paramDefs: ParamDef[],
+  base: ProjectParams,
+  expressions: Record<string, ParamExpression>,
+  constraints: ParamConstraint[],
+  unit: UnitSystem,
+): ResolvedDesignTable {
+  const errors: string[] = []
+  const defs = new Map(paramDefs.map((d) => [d.key, d]))
+  const unknown = table.columns.filter((c) => !defs.has(c))
+  if (unknown.length > 0) errors.push(`Unknown column${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`)
+
+  const variants = table.rows.map((row, r) => {
+    const params = { ...base }
+    table.columns.forEach((key, c) => {
+      const def = defs.get(key)
+      const text = row[c]?.trim() ?? ''
+      if (!def || text === '') return
+      try {
+        let value: ParamValue | undefined
+        if (isNumberParam(def)) {
+          value = evaluateQuantity(text, def.unitType === 'length' ? unit : null)
+          if (!inRange(def, value, unit)) throw new Error(`${formatCell(value)} is out of range`)
+        } else {
+          value = coerceParamValue(def, text)
+          if (value === undefined) throw new Error(`"${text}" is not a valid ${def.kind}`)
+        }
+        params[key] = value
+      } catch (err) {
+        errors.push(`Row ${r + 1}, ${key}: ${err instanceof Error ? err.message : String(err)}`)
+      }
+    })
+    const resolved = resolveExpressions(params, paramDefs, expressions, unit).params
+    for (const { constraint } of checkConstraints(resolved, constraints, paramDefs, unit)) {
+      errors.push(`Row ${r + 1}: ${constraint.message}`)
+    }
+    return resolved
+  })
+  return { variants, errors }
+}
+
+// ── File names ──
+
+const UNSAFE_FILENAME = /[\\/:*?"<>|\s]+/g
+
+/**
+ * Fill a file name template: `{key}` is replaced by that param's value, `{#}` by the
+ * 1-based row number. Throws for placeholders that don't name a param.
+ */
+export function fillNameTemplate(template: string, params: ProjectParams, row: number): string {
+  const name = template.replace(/\{([^}]*)\}/g, (_, key: string) => {
+    if (key === '#') return String(row + 1)
+    if (!(key in params)) throw new Error(`Unknown placeholder {${key}}`)
+    return formatCell(params[key]).replace(/^#/, '')
+  })
+  return name.replace(UNSAFE_FILENAME, '-').replace(/^[-.]+|-+$/g, '') || `variant-${row + 1}`
+}
+
+/** File names for every variant, with a numeric suffix where two would collide */
+export function variantFileNames(template: string, variants: ProjectParams[], extension: string): string[] {
+  const seen = new Map<string, number>()
+  return variants.map((params, i) => {
+    const name = fillNameTemplate(template, params, i)
+    const count = (seen.get(name) ?? 0) + 1
+    seen.set(name, count)
+    return `${count === 1 ? name : `${name}-${count}`}.${extension}`
+  })
+}
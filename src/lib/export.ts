@@ -1,14 +1,23 @@
 import * as THREE from 'three'
 import { STLExporter } from 'three/addons/exporters/STLExporter.js'
 import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js'
+import { zipSync } from 'three/addons/libs/fflate.module.js'
 import { stlScaleFactor, glbScaleFactor, type UnitSystem } from './units'
+import { checkMeshIntegrity, isWatertight, repairGeometry, repairObject } from './mesh-integrity'
+import { serializeGeometry, type SerializedGeometry } from './geometry-jobs'
+import { createChannel, submitJob } from './geometry-worker'
+
+export interface ExportOptions {
+  /** Weld, re-wind and cap the meshes first (see repairGeometry) */
+  repair?: boolean
+}
 
 /**
  * Clone the model and rotate from Three.js Y-up to STL/CAD Z-up convention.
  * Optionally applies a uniform scale factor for unit conversion.
  */
-function cloneForExport(group: THREE.Object3D, scale: number): THREE.Object3D {
-  const clone = group.clone(true)
+function cloneForExport(group: THREE.Object3D, scale: number, options: ExportOptions): THREE.Object3D {
+  const clone = options.repair ? repairObject(group) : group.clone(true)
   const wrapper = new THREE.Group()
   wrapper.add(clone)
   // Rotate +90deg around X to convert Y-up → Z-up
@@ -20,25 +29,78 @@ function cloneForExport(group: THREE.Object3D, scale: number): THREE.Object3D {
   return wrapper
 }
 
+/** The model to export after `mergeParts`, and why merging fell back to separate bodies */
+export interface MergeResult {
+  object: THREE.Object3D
+  error: string | null
+}
+
+let mergeChannel = 0
+
+/**
+ * Union the visible parts into one solid in the geometry worker, for slicers that choke
+ * on overlapping bodies. Part transforms (and so scale overrides) are baked in. When the
+ * union throws, comes back empty or isn't watertight once its seams are closed up (CSG leaves
+ * T-junctions), the parts are returned as they were.
+ */
+export async function mergeParts(group: THREE.Object3D): Promise<MergeResult> {
+  group.updateWorldMatrix(true, true)
+  const toGroup = group.matrixWorld.clone().invert()
+  const parts: SerializedGeometry[] = []
+  let material: THREE.Material | THREE.Material[] | null = null
+  group.traverseVisible((child) => {
+    if (!(child as THREE.Mesh).isMesh) return
+    const mesh = child as THREE.Mesh
+    const position = mesh.geometry.getAttribute('position')
+    if (!position) return
+    const part = new THREE.BufferGeometry()
+    part.setAttribute('position', position.clone())
+    if (mesh.geometry.index) part.setIndex(mesh.geometry.index.clone())
+    part.applyMatrix4(toGroup.clone().multiply(mesh.matrixWorld))
+    part.computeVertexNormals()
+    parts.push(serializeGeometry(part).data)
+    material ??= mesh.material
+  })
+  if (parts.length < 2) return { object: group, error: null }
+
+  mergeChannel ||= createChannel()
+  const result = await submitJob(mergeChannel, { kind: 'union', parts })
+  if (!result) return { object: group, error: 'Merging was interrupted' }
+  if ('error' in result) return { object: group, error: result.error }
+  if (!result.geometry) return { object: group, error: 'The union came out empty' }
+
+  const solid = repairGeometry(result.geometry)
+  result.geometry.dispose()
+  const merged = new THREE.Group()
+  merged.position.copy(group.position)
+  merged.quaternion.copy(group.quaternion)
+  merged.scale.copy(group.scale)
+  merged.add(new THREE.Mesh(solid, Array.isArray(material) ? material[0] : material ?? undefined))
+  if (!isWatertight(checkMeshIntegrity(merged, { selfIntersections: false }))) {
+    solid.dispose()
+    return { object: group, error: 'The union has holes' }
+  }
+  return { object: merged, error: null }
+}
+
 /**
- * Export STL. Slicers expect mm, so we scale from the working unit to mm.
+ * Binary STL. Slicers expect mm, so we scale from the working unit to mm.
  */
-export function downloadSTL(group: THREE.Object3D, filename: string, unit: UnitSystem) {
+export function exportSTL(group: THREE.Object3D, unit: UnitSystem, options: ExportOptions = {}): Uint8Array {
   const scale = stlScaleFactor(unit)
-  const exportScene = cloneForExport(group, scale)
+  const exportScene = cloneForExport(group, scale, options)
   const exporter = new STLExporter()
   const result = exporter.parse(exportScene, { binary: true })
-  const blob = new Blob([result], { type: 'application/octet-stream' })
-  triggerDownload(blob, `${filename}.stl`)
+  return new Uint8Array(result.buffer, result.byteOffset, result.byteLength)
 }
 
 /**
- * Export GLB. glTF spec expects meters, so we scale from working unit to meters.
+ * Binary glTF. The glTF spec expects meters, so we scale from working unit to meters.
  */
-export async function downloadGLB(group: THREE.Object3D, filename: string, unit: UnitSystem) {
+export async function exportGLB(group: THREE.Object3D, unit: UnitSystem, options: ExportOptions = {}): Promise<Uint8Array> {
   const scale = glbScaleFactor(unit)
   const wrapper = new THREE.Group()
-  const clone = group.clone(true)
+  const clone = options.repair ? repairObject(group) : group.clone(true)
   wrapper.add(clone)
   if (scale !== 1) {
     wrapper.scale.setScalar(scale)
@@ -48,11 +110,26 @@ export async function downloadGLB(group: THREE.Object3D, filename: string, unit:
   const exporter = new GLTFExporter()
   // GLB/glTF uses Y-up natively (same as Three.js), no rotation needed
   const result = await exporter.parseAsync(wrapper, { binary: true })
-  const blob = new Blob([result as ArrayBuffer], { type: 'application/octet-stream' })
+  return new Uint8Array(result as ArrayBuffer)
+}
+
+export function downloadSTL(group: THREE.Object3D, filename: string, unit: UnitSystem, options: ExportOptions = {}) {
+  const blob = new Blob([exportSTL(group, unit, options)], { type: 'application/octet-stream' })
+  triggerDownload(blob, `${filename}.stl`)
+}
+
+export async function downloadGLB(group: THREE.Object3D, filename: string, unit: UnitSystem, options: ExportOptions = {}) {
+  const blob = new Blob([await exportGLB(group, unit, options)], { type: 'application/octet-stream' })
   triggerDownload(blob, `${filename}.glb`)
 }
 
-function triggerDownload(blob: Blob, filename: string) {
+/** Bundle files (keyed by name) into a single zip download */
+export function downloadZip(files: Record<string, Uint8Array>, filename: string) {
+  const blob = new Blob([zipSync(files)], { type: 'application/zip' })
+  triggerDownload(blob, `${filename}.zip`)
+}
+
+export function triggerDownload(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.style.display = 'none'
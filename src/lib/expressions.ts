@@ -0,0 +1,351 @@
+import type { ProjectParams } from '../projects'
+import type { ParamDef } from '../types'
+import { convertLength, convertValue, isLengthSuffix, type UnitSystem } from './units'
+import { isNumberParam, numberParam } from './params'
+
+/**
+ * A param computed from others, e.g. `gripDiameter * 0.75 + barThickness`. Constants in
+ * the source are read in `unit`, so an expression keeps its meaning when the display
+ * unit changes: param values are converted into `unit` before evaluating, and the
+ * result is converted back. Constants may also carry their own length unit (`10mm`, `1in`).
+ */
+export interface ParamExpression {
+  source: string
+  unit: UnitSystem
+}
+
+// ── Parsing ──
+
+type Node =
+  | { type: 'number'; value: number; suffix?: string }
+  | { type: 'name'; name: string }
+  | { type: 'unary'; op: '-' | '+'; arg: Node }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/' | '%' | '^'; left: Node; right: Node }
+  | { type: 'call'; fn: string; args: Node[] }
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'name'; value: string; pos: number }
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'end'; pos: number }
+
+// Maps rather than object literals, so names like "constructor" can't reach the prototype
+const FUNCTIONS = new Map<string, (...args: number[]) => number>([
+  ['min', Math.min],
+  ['max', Math.max],
+  ['abs', Math.abs],
+  ['sqrt', Math.sqrt],
+  ['round', Math.round],
+  ['floor', Math.floor],
+  ['ceil', Math.ceil],
+  ['sin', Math.sin],
+  ['cos', Math.cos],
+  ['tan', Math.tan],
+])
+
+const CONSTANTS = new Map<string, number>([
+  ['pi', Math.PI],
+])
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < source.length) {
+    const ch = source[i]
+    if (/\s/.test(ch)) {
+      i++
+    } else if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i))
+      if (!match) throw new Error(`Unexpected "${ch}" at position ${i + 1}`)
+      tokens.push({ kind: 'number', value: Number(match[0]), pos: i })
+      i += match[0].length
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_]\w*/.exec(source.slice(i))!
+      tokens.push({ kind: 'name', value: match[0], pos: i })
+      i += match[0].length
+    } else if ('+-*/%^(),'.includes(ch)) {
+      tokens.push({ kind: 'op', value: ch, pos: i })
+      i++
+    } else {
+      throw new Error(`Unexpected "${ch}" at position ${i + 1}`)
+    }
+  }
+  tokens.push({ kind: 'end', pos: source.length })
+  return tokens
+}
+
+/**
+ * Recursive-descent parser for arithmetic with the usual precedence:
+ * `+ -` < `* / %` < unary `- +` < `^` (right-associative) < calls and parentheses.
+ */
+class Parser {
+  private tokens: Token[]
+  private index = 0
+
+  constructor(source: string) {
+    this.tokens = tokenize(source)
+  }
+
+  parse(): Node {
+    if (this.peek().kind === 'end') throw new Error('Expression is empty')
+    const node = this.additive()
+    const next = this.peek()
+    if (next.kind !== 'end') throw new Error(`Unexpected "${this.text(next)}" at position ${next.pos + 1}`)
+    return node
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private text(token: Token): string {
+    return token.kind === 'end' ? 'end of expression' : String(token.value)
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek()
+    return token.kind === 'op' && token.value === value
+  }
+
+  private expect(value: string) {
+    const token = this.peek()
+    if (!this.isOp(value)) throw new Error(`Expected "${value}" but found ${this.text(token)}`)
+    this.index++
+  }
+
+  private additive(): Node {
+    let node = this.multiplicative()
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = (this.tokens[this.index++] as { value: '+' | '-' }).value
+      node = { type: 'binary', op, left: node, right: this.multiplicative() }
+    }
+    return node
+  }
+
+  private multiplicative(): Node {
+    let node = this.unary()
+    while (this.isOp('*') || this.isOp('/') || this.isOp('%')) {
+      const op = (this.tokens[this.index++] as { value: '*' | '/' | '%' }).value
+      node = { type: 'binary', op, left: node, right: this.unary() }
+    }
+    return node
+  }
+
+  private unary(): Node {
+    if (this.isOp('-') || this.isOp('+')) {
+      const op = (this.tokens[this.index++] as { value: '-' | '+' }).value
+      return { type: 'unary', op, arg: this.unary() }
+    }
+    return this.power()
+  }
+
+  private power(): Node {
+    const base = this.primary()
+    if (!this.isOp('^')) return base
+    this.index++
+    return { type: 'binary', op: '^', left: base, right: this.unary() }
+  }
+
+  private primary(): Node {
+    const token = this.peek()
+    if (token.kind === 'number') {
+      this.index++
+      // A length suffix right after a constant, e.g. `3mm` or `1 in`
+      const next = this.peek()
+      if (next.kind === 'name' && isLengthSuffix(next.value)) {
+        this.index++
+        return { type: 'number', value: token.value, suffix: next.value }
+      }
+      return { type: 'number', value: token.value }
+    }
+    if (token.kind === 'name') {
+      this.index++
+      if (!this.isOp('(')) return { type: 'name', name: token.value }
+      if (!FUNCTIONS.has(token.value)) throw new Error(`Unknown function "${token.value}"`)
+      this.index++
+      const args: Node[] = []
+      if (!this.isOp(')')) {
+        args.push(this.additive())
+        while (this.isOp(',')) {
+          this.index++
+          args.push(this.additive())
+        }
+      }
+      this.expect(')')
+      return { type: 'call', fn: token.value, args }
+    }
+    if (this.isOp('(')) {
+      this.index++
+      const node = this.additive()
+      this.expect(')')
+      return node
+    }
+    if (token.kind === 'end') throw new Error('Unexpected end of expression')
+    throw new Error(`Unexpected "${this.text(token)}" at position ${token.pos + 1}`)
+  }
+}
+
+export interface ParsedExpression {
+  root: Node
+  /** Names the expression reads, other than built-in constants */
+  names: string[]
+}
+
+/** Parse an expression, throwing with a user-facing message when it's malformed */
+export function parseExpression(source: string): ParsedExpression {
+  const root = new Parser(source).parse()
+  const names = new Set<string>()
+  const visit = (node: Node) => {
+    if (node.type === 'name' && !CONSTANTS.has(node.name)) names.add(node.name)
+    else if (node.type === 'unary') visit(node.arg)
+    else if (node.type === 'binary') {
+      visit(node.left)
+      visit(node.right)
+    } else if (node.type === 'call') node.args.forEach(visit)
+  }
+  visit(root)
+  return { root, names: [...names] }
+}
+
+/** Constants with a length suffix are converted into `unit`; when it's null they're an error */
+function evaluateNode(node: Node, lookup: (name: string) => number, unit: UnitSystem | null): number {
+  switch (node.type) {
+    case 'number':
+      if (!node.suffix) return node.value
+      if (!unit) throw new Error(`Units like "${node.suffix}" only apply to lengths`)
+      return convertLength(node.value, node.suffix, unit)
+    case 'name':
+      return CONSTANTS.get(node.name) ?? lookup(node.name)
+    case 'unary': {
+      const arg = evaluateNode(node.arg, lookup, unit)
+      return node.op === '-' ? -arg : arg
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, lookup, unit)
+      const right = evaluateNode(node.right, lookup, unit)
+      switch (node.op) {
+        case '+': return left + right
+        case '-': return left - right
+        case '*': return left * right
+        case '/': return left / right
+        case '%': return left % right
+        case '^': return left ** right
+      }
+      break
+    }
+    case 'call':
+      return FUNCTIONS.get(node.fn)!(...node.args.map((a) => evaluateNode(a, lookup, unit)))
+  }
+}
+
+/** Evaluate a parsed expression in `unit`, reading names through `lookup` */
+export function evaluateExpression(
+  expr: ParsedExpression,
+  lookup: (name: string) => number,
+  unit: UnitSystem | null,
+): number {
+  return evaluateNode(expr.root, lookup, unit)
+}
+
+/**
+ * Evaluate a value typed into a numeric field, such as `35/2` or `1in + 3mm`. Bare
+ * numbers are read in `unit`; pass null for fields that aren't lengths.
+ */
+export function evaluateQuantity(source: string, unit: UnitSystem | null): number {
+  const parsed = parseExpression(source)
+  if (parsed.names.length > 0) throw new Error(`Unknown name "${parsed.names[0]}"`)
+  const value = evaluateNode(parsed.root, () => NaN, unit)
+  if (!Number.isFinite(value)) throw new Error('Value is not a number')
+  return value
+}
+
+// ── Resolving a project's expressions ──
+
+/** A project's authored expressions (ParamDef.expression, in mm) overlaid with the user's own */
+export function collectExpressions(
+  paramDefs: ParamDef[],
+  userExpressions: Record<string, ParamExpression> = {},
+): Record<string, ParamExpression> {
+  const expressions: Record<string, ParamExpression> = {}
+  for (const def of paramDefs) {
+    if (isNumberParam(def) && def.expression) expressions[def.key] = { source: def.expression, unit: 'mm' }
+  }
+  return { ...expressions, ...userExpressions }
+}
+
+export interface ResolvedParams {
+  params: ProjectParams
+  /** Per param key: why its expression couldn't be applied, or a note that the result was clamped */
+  errors: Record<string, string>
+}
+
+/**
+ * Evaluate every expression against the params (in `unit`), in dependency order, and
+ * write the results back clamped to each ParamDef's range. Expressions that are
+ * malformed, read unknown params, or take part in a cycle leave their param as is.
+ */
+export function resolveExpressions(
+  params: ProjectParams,
+  paramDefs: ParamDef[],
+  expressions: Record<string, ParamExpression>,
+  unit: UnitSystem,
+): ResolvedParams {
+  const errors: Record<string, string> = {}
+  // Only numbers take part: other kinds can neither be computed nor referenced
+  const defs = new Map(paramDefs.filter(isNumberParam).map((d) => [d.key, d]))
+  const parsed = new Map<string, ParsedExpression>()
+
+  for (const [key, expr] of Object.entries(expressions)) {
+    if (!defs.has(key)) continue
+    try {
+      const p = parseExpression(expr.source)
+      const unknown = p.names.find((n) => !defs.has(n))
+      if (unknown) throw new Error(`Unknown parameter "${unknown}"`)
+      if (p.names.includes(key)) throw new Error('Expression refers to itself')
+      parsed.set(key, p)
+    } catch (err) {
+      errors[key] = err instanceof Error ? err.message : String(err)
+    }
+  }
+
+  // Kahn's algorithm over the computed params; whatever is left over sits on a cycle
+  const indegree = new Map<string, number>()
+  const dependents = new Map<string, string[]>()
+  for (const [key, p] of parsed) {
+    const deps = p.names.filter((n) => parsed.has(n))
+    indegree.set(key, deps.length)
+    for (const dep of deps) dependents.set(dep, [...(dependents.get(dep) ?? []), key])
+  }
+  const ready = [...parsed.keys()].filter((k) => indegree.get(k) === 0)
+  const order: string[] = []
+  while (ready.length > 0) {
+    const key = ready.shift()!
+    order.push(key)
+    for (const next of dependents.get(key) ?? []) {
+      const remaining = indegree.get(next)! - 1
+      indegree.set(next, remaining)
+      if (remaining === 0) ready.push(next)
+    }
+  }
+  for (const key of parsed.keys()) {
+    if (!order.includes(key)) errors[key] = 'Circular reference between expressions'
+  }
+
+  const result = { ...params }
+  for (const key of order) {
+    const def = defs.get(key)!
+    const exprUnit = expressions[key].unit
+    const lookup = (name: string) => convertValue(numberParam(result, name), defs.get(name)!.unitType, unit, exprUnit)
+    const value = convertValue(evaluateNode(parsed.get(key)!.root, lookup, exprUnit), def.unitType, exprUnit, unit)
+    if (!Number.isFinite(value)) {
+      errors[key] = 'Expression does not evaluate to a number'
+      continue
+    }
+    const min = convertValue(def.min, def.unitType, 'mm', unit)
+    const max = convertValue(def.max, def.unitType, 'mm', unit)
+    const clamped = Math.min(max, Math.max(min, value))
+    if (clamped !== value) errors[key] = `Result ${Number(value.toFixed(3))} is out of range; clamped`
+    result[key] = clamped
+  }
+  return { params: result, errors }
+}
@@ -0,0 +1,78 @@
+import * as THREE from 'three'
+import { generateInfill, type InfillConfig } from './infill'
+import { generateLattice, type LatticeConfig } from './lattice'
+import { unionGeometries } from './union'
+
+/**
+ * Heavy geometry builds that can run off the main thread. Jobs are plain data so
+ * they survive structured cloning into the geometry worker.
+ */
+export type GeometryJob =
+  | ((
+      | { kind: 'infill'; config: InfillConfig }
+      | { kind: 'lattice'; config: LatticeConfig }
+    ) & {
+      /** Bounding shape (infill) or part profile (lattice) as produced by THREE.Shape#toJSON() */
+      shape: ReturnType<THREE.Shape['toJSON']>
+      /** Optional column-major 4×4 matrix applied to the result (e.g. to lay a slab flat) */
+      matrix?: number[]
+    })
+  /** Union of parts already placed in one space, e.g. to export a single solid */
+  | { kind: 'union'; parts: SerializedGeometry[] }
+
+/** BufferGeometry as typed arrays, transferable between threads without copying */
+export interface SerializedGeometry {
+  attributes: Record<string, { array: Float32Array; itemSize: number }>
+  index: Uint32Array | null
+}
+
+export function runGeometryJob(job: GeometryJob): THREE.BufferGeometry | null {
+  let geo: THREE.BufferGeometry | null
+  switch (job.kind) {
+    case 'infill':
+      geo = generateInfill(new THREE.Shape().fromJSON(job.shape), job.config)
+      break
+    case 'lattice':
+      geo = generateLattice(new THREE.Shape().fromJSON(job.shape), job.config)
+      break
+    case 'union':
+      return unionGeometries(job.parts.map(deserializeGeometry))
+  }
+  if (geo && job.matrix) {
+    geo.applyMatrix4(new THREE.Matrix4().fromArray(job.matrix))
+  }
+  return geo
+}
+
+export function serializeGeometry(geo: THREE.BufferGeometry): { data: SerializedGeometry; transfer: ArrayBuffer[] } {
+  const attributes: SerializedGeometry['attributes'] = {}
+  const transfer: ArrayBuffer[] = []
+  for (const [name, attr] of Object.entries(geo.attributes)) {
+    const array = new Float32Array(attr.array)
+    attributes[name] = { array, itemSize: attr.itemSize }
+    transfer.push(array.buffer)
+  }
+  const index = geo.index ? new Uint32Array(geo.index.array) : null
+  if (index) transfer.push(index.buffer)
+  return { data: { attributes, index }, transfer }
+}
+
+export function deserializeGeometry(data: SerializedGeometry): THREE.BufferGeometry {
+  const geo = new THREE.BufferGeometry()
+  for (const [name, { array, itemSize }] of Object.entries(data.attributes)) {
+    geo.setAttribute(name, new THREE.BufferAttribute(array, itemSize))
+  }
+  if (data.index) geo.setIndex(new THREE.BufferAttribute(data.index, 1))
+  return geo
+}
+
+// ── Worker protocol ──
+
+export interface GeometryRequest {
+  id: number
+  job: GeometryJob
+}
+
+export type GeometryResponse =
+  | { id: number; geometry: SerializedGeometry | null }
+  | { id: number; error: string }
@@ -0,0 +1,120 @@
+import type * as THREE from 'three'
+import { deserializeGeometry, runGeometryJob, type GeometryJob, type GeometryResponse } from './geometry-jobs'
+
+export type GeometryJobResult = { geometry: THREE.BufferGeometry | null } | { error: string }
+
+interface QueuedJob {
+  id: number
+  channel: number
+  job: GeometryJob
+  /** Resolves with null when the job was superseded before it finished */
+  resolve: (result: GeometryJobResult | null) => void
+}
+
+/**
+ * Client for the geometry worker. Each caller owns a channel; submitting a new job on
+ * a channel supersedes its previous one. A superseded job that hasn't started is
+ * dropped, and one that is already running is cancelled by terminating the worker —
+ * CSG is synchronous, so there is no cooperative way to stop it mid-build.
+ */
+let worker: Worker | null = null
+let running: QueuedJob | null = null
+/** Latest pending job per channel, in submission order */
+const queue = new Map<number, QueuedJob>()
+let nextId = 1
+let nextChannel = 1
+const busyListeners = new Set<() => void>()
+
+function spawnWorker(): Worker {
+  const w = new Worker(new URL('../workers/geometry.worker.ts', import.meta.url), { type: 'module' })
+  w.onmessage = (e: MessageEvent<GeometryResponse>) => {
+    const msg = e.data
+    if (!running || msg.id !== running.id) return
+    const job = running
+    running = null
+    if ('error' in msg) job.resolve({ error: msg.error })
+    else job.resolve({ geometry: msg.geometry ? deserializeGeometry(msg.geometry) : null })
+    pump()
+  }
+  w.onerror = (e) => {
+    e.preventDefault()
+    const job = running
+    running = null
+    terminateWorker()
+    job?.resolve({ error: e.message || 'Geometry worker crashed' })
+    pump()
+  }
+  return w
+}
+
+function terminateWorker() {
+  worker?.terminate()
+  worker = null
+}
+
+function pump() {
+  if (!running) {
+    const next = queue.values().next().value
+    if (next) {
+      queue.delete(next.channel)
+      running = next
+      if (typeof Worker === 'undefined') {
+        // No worker support: build on the main thread, still asynchronously
+        setTimeout(() => runInline(next), 0)
+      } else {
+        worker ??= spawnWorker()
+        worker.postMessage({ id: next.id, job: next.job })
+      }
+    }
+  }
+  for (const l of busyListeners) l()
+}
+
+function runInline(job: QueuedJob) {
+  if (running !== job) return
+  running = null
+  try {
+    job.resolve({ geometry: runGeometryJob(job.job) })
+  } catch (err) {
+    job.resolve({ error: err instanceof Error ? err.message : String(err) })
+  }
+  pump()
+}
+
+export function createChannel(): number {
+  return nextChannel++
+}
+
+/** Queue a build on a channel, superseding whatever that channel asked for before */
+export function submitJob(channel: number, job: GeometryJob): Promise<GeometryJobResult | null> {
+  cancelChannel(channel, false)
+  return new Promise((resolve) => {
+    queue.set(channel, { id: nextId++, channel, job, resolve })
+    pump()
+  })
+}
+
+/** Drop a channel's pending job and stop its running build, if any */
+export function cancelChannel(channel: number, notify = true) {
+  const pending = queue.get(channel)
+  if (pending) {
+    queue.delete(channel)
+    pending.resolve(null)
+  }
+  if (running?.channel === channel) {
+    const stale = running
+    running = null
+    terminateWorker()
+    stale.resolve(null)
+  }
+  if (notify) pump()
+}
+
+export function isGeometryBusy(): boolean {
+  return running !== null || queue.size > 0
+}
+
+export function subscribeGeometryBusy(listener: () => void): () => void {
+  busyListeners.add(listener)
+  return () => busyListeners.delete(listener)
+}
@@ -0,0 +1,114 @@
+import type { ProjectParams } from '../projects'
+import type { ParamDef, PartState } from '../types'
+
+/** The undoable state of one project: its params plus its part edits */
+export interface HistorySnapshot {
+  params: ProjectParams
+  parts: PartState
+}
+
+export interface HistoryEntry {
+  id: number
+  label: string
+  /** When the entry was last extended, for coalescing */
+  at: number
+  /** Entries with the same key coalesce when they follow each other quickly (e.g. a slider drag) */
+  coalesceKey: string | null
+  before: HistorySnapshot
+  after: HistorySnapshot
+}
+
+export interface HistoryStack {
+  /** Oldest first; the last entry is the next one to undo */
+  past: HistoryEntry[]
+  /** Next entry to redo first */
+  future: HistoryEntry[]
+}
+
+export const EMPTY_STACK: HistoryStack = { past: [], future: [] }
+
+/** Changes with the same coalesce key this close together become one step */
+const COALESCE_MS = 1000
+/** Uncategorised changes (no coalesce key) this soon after another one belong to it */
+const FOLLOW_UP_MS = 100
+const MAX_ENTRIES = 100
+
+let nextEntryId = 1
+
+/** JSON with sorted keys, so equal states compare equal regardless of key order */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>
+    return `{${Object.keys(obj).sort().map((k) => `${JSON.stringify(k)}:${canonical(obj[k])}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+export function sameSnapshot(a: HistorySnapshot, b: HistorySnapshot): boolean {
+  return canonical(a) === canonical(b)
+}
+
+/** Human-readable label for a change, plus the key used to coalesce repeats of it */
+export function describeChange(
+  before: HistorySnapshot,
+  after: HistorySnapshot,
+  paramDefs: ParamDef[],
+  partLabel: string,
+): { label: string; coalesceKey: string | null } {
+  const changedParams = Object.keys(after.params).filter((k) => after.params[k] !== before.params[k])
+  if (changedParams.length === 1) {
+    const def = paramDefs.find((d) => d.key === changedParams[0])
+    return { label: `Change ${def?.label ?? changedParams[0]}`, coalesceKey: `param:${changedParams[0]}` }
+  }
+  if (changedParams.length > 1) {
+    return { label: `Change ${changedParams.length} parameters`, coalesceKey: null }
+  }
+
+  const wasDeleted = new Set(before.parts.deleted)
+  const isDeleted = new Set(after.parts.deleted)
+  const deleted = after.parts.deleted.filter((id) => !wasDeleted.has(id))
+  if (deleted.length > 0) {
+    return {
+      label: deleted.length === 1 ? `Delete ${partLabel} ${deleted[0]}` : `Delete ${deleted.length} ${partLabel}s`,
+      coalesceKey: null,
+    }
+  }
+  const restored = before.parts.deleted.filter((id) => !isDeleted.has(id))
+  if (restored.length > 0) {
+    return { label: `Restore ${restored.length} ${partLabel}${restored.length === 1 ? '' : 's'}`, coalesceKey: null }
+  }
+
+  const edited = Object.keys(after.parts.overrides).filter(
+    (id) => canonical(after.parts.overrides[id]) !== canonical(before.parts.overrides[id]),
+  )
+  if (edited.length > 0) {
+    return {
+      label: edited.length === 1 ? `Edit ${partLabel} ${edited[0]}` : `Edit ${edited.length} ${partLabel}s`,
+      coalesceKey: `overrides:${edited.sort().join(',')}`,
+    }
+  }
+  return { label: 'Edit', coalesceKey: null }
+}
+
+/**
+ * Record a before → after change. Clears the redo stack, and extends the latest entry
+ * instead of adding one when the change continues it: same coalesce key in quick
+ * succession, or a keyless follow-up landing right after a keyless entry.
+ */
+export function recordChange(
+  stack: HistoryStack,
+  before: HistorySnapshot,
+  after: HistorySnapshot,
+  change: { label: string; coalesceKey: string | null },
+  now: number,
+): HistoryStack {
+  const last = stack.past[stack.past.length - 1]
+  const continues = last && stack.future.length === 0 && change.coalesceKey === last.coalesceKey &&
+    now - last.at < (change.coalesceKey === null ? FOLLOW_UP_MS : COALESCE_MS)
+  if (continues) {
+    return { past: [...stack.past.slice(0, -1), { ...last, after, at: now }], future: [] }
+  }
+  const entry: HistoryEntry = { id: nextEntryId++, ...change, at: now, before, after }
+  return { past: [...stack.past, entry].slice(-MAX_ENTRIES), future: [] }
+}
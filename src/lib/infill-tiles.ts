@@ -0,0 +1,119 @@
+import * as THREE from 'three'
+import { SVGLoader } from 'three/addons/loaders/SVGLoader.js'
+import type { InfillTileShape } from './infill'
+
+/** A user-imported SVG tile, persisted in localStorage */
+export interface InfillTile {
+  id: number
+  name: string
+  shape: InfillTileShape
+}
+
+const STORAGE_KEY = 'three3d:infill-tiles'
+
+let tiles: InfillTile[] = readTiles()
+const listeners = new Set<() => void>()
+
+function readTiles(): InfillTile[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as InfillTile[]) : []
+  } catch {
+    return []
+  }
+}
+
+function commit(next: InfillTile[]) {
+  tiles = next
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  } catch (err) {
+    console.warn('Could not persist infill tiles:', err)
+  }
+  for (const l of listeners) l()
+}
+
+export function getTiles(): InfillTile[] {
+  return tiles
+}
+
+export function getTileShape(id: number): InfillTileShape | undefined {
+  return tiles.find((t) => t.id === id)?.shape
+}
+
+export function subscribeTiles(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+/** Parse and store an SVG tile. Throws if the SVG contains no usable paths. */
+export function addTile(name: string, svgText: string): InfillTile {
+  const shape = parseTileSvg(svgText)
+  const tile: InfillTile = {
+    id: tiles.reduce((max, t) => Math.max(max, t.id), 0) + 1,
+    name,
+    shape,
+  }
+  commit([...tiles, tile])
+  return tile
+}
+
+export function removeTile(id: number) {
+  commit(tiles.filter((t) => t.id !== id))
+}
+
+const toPair = (v: THREE.Vector2, height: number): [number, number] => [v.x, height - v.y]
+
+/**
+ * Convert SVG markup into plain tile outlines. The tile's period is the viewBox when
+ * present (so lattices can repeat seamlessly), otherwise the content bounds.
+ * SVG is y-down, so outlines are flipped into the y-up space the infill works in.
+ */
+export function parseTileSvg(svgText: string): InfillTileShape {
+  const data = new SVGLoader().parse(svgText)
+  const fills: InfillTileShape['fills'] = []
+  const strokes: InfillTileShape['strokes'] = []
+  const box = new THREE.Box2()
+
+  const rawFills: { outline: THREE.Vector2[]; holes: THREE.Vector2[][] }[] = []
+  const rawStrokes: { points: THREE.Vector2[]; closed: boolean }[] = []
+  for (const path of data.paths) {
+    const style = path.userData?.style ?? {}
+    if (style.fill !== undefined && style.fill !== 'none') {
+      for (const shape of SVGLoader.createShapes(path)) {
+        const { shape: outline, holes } = shape.extractPoints(12)
+        rawFills.push({ outline, holes })
+        for (const p of outline) box.expandByPoint(p)
+      }
+    }
+    if (style.stroke !== undefined && style.stroke !== 'none') {
+      for (const sub of path.subPaths) {
+        const points = sub.getPoints(12)
+        if (points.length < 2) continue
+        const closed = sub.autoClose || points[0].distanceTo(points[points.length - 1]) < 1e-6
+        rawStrokes.push({ points: closed ? points.slice(0, -1) : points, closed })
+        for (const p of points) box.expandByPoint(p)
+      }
+    }
+  }
+  if (rawFills.length === 0 && rawStrokes.length === 0) {
+    throw new Error('SVG tile has no filled or stroked paths')
+  }
+
+  const viewBox = data.xml.documentElement?.getAttribute('viewBox')?.trim().split(/[\s,]+/).map(Number)
+  const [minX, minY, width, height] = viewBox && viewBox.length === 4 && viewBox.every(Number.isFinite)
+    ? viewBox
+    : [box.min.x, box.min.y, box.max.x - box.min.x, box.max.y - box.min.y]
+  const origin = new THREE.Vector2(minX, minY)
+
+  for (const f of rawFills) {
+    fills.push({
+      outline: f.outline.map((p) => toPair(p.clone().sub(origin), height)),
+      holes: f.holes.map((h) => h.map((p) => toPair(p.clone().sub(origin), height))),
+    })
+  }
+  for (const s of rawStrokes) {
+    strokes.push({ points: s.points.map((p) => toPair(p.clone().sub(origin), height)), closed: s.closed })
+  }
+  return { width, height, fills, strokes }
+}
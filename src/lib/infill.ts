@@ -0,0 +1,868 @@
+import * as THREE from 'three'
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js'
+import { Evaluator, Brush, INTERSECTION } from 'three-bvh-csg'
+import type { ParamCondition, ParamConstraint, ParamDef } from '../types'
+import type { ProjectParams } from '../projects'
+import { getTiles, getTileShape } from './infill-tiles'
+import { numberParam, stringParam } from './params'
+
+export const INFILL_PATTERN = {
+  NONE: 'none',
+  HONEYCOMB: 'honeycomb',
+  TRIANGLE: 'triangle',
+  RECTILINEAR: 'rectilinear',
+  GRID: 'grid',
+  CONCENTRIC: 'concentric',
+  GYROID: 'gyroid',
+  VORONOI: 'voronoi',
+} as const
+
+const TILE_PREFIX = 'tile:'
+
+/** The fillPattern value that selects an imported SVG tile */
+export function tilePattern(id: number): string {
+  return `${TILE_PREFIX}${id}`
+}
+
+/** The tile id a fillPattern value selects, or null for the built-in patterns */
+export function patternTileId(pattern: string): number | null {
+  return pattern.startsWith(TILE_PREFIX) ? Number(pattern.slice(TILE_PREFIX.length)) : null
+}
+
+/**
+ * An imported SVG tile as plain data (SVG user units, y up), so it can be stored
+ * and passed around without the DOM. Fills are solid regions, strokes are centerlines.
+ */
+export interface InfillTileShape {
+  width: number
+  height: number
+  fills: { outline: [number, number][]; holes: [number, number][][] }[]
+  strokes: { points: [number, number][]; closed: boolean }[]
+}
+
+export interface InfillConfig {
+  /** An INFILL_PATTERN value, or a tilePattern() */
+  pattern: string
+  cellSize: number
+  wallThickness: number
+  /** Extrusion depth of the infill slab (along Z) */
+  depth: number
+  /** Anchor the lattice at the top of the bounds instead of the bottom */
+  fromTop: boolean
+  /** Line direction in degrees for rectilinear and grid patterns */
+  angle: number
+  /** Seed for the Voronoi point scatter */
+  seed: number
+  /** Vary the cell size with distance to the boundary instead of using `cellSize` everywhere */
+  gradient?: InfillGradient
+  /** Tile outline used when `pattern` selects an imported SVG tile */
+  tile?: InfillTileShape
+}
+
+export interface InfillGradient {
+  /** Cell size right at the boundary */
+  minCellSize: number
+  /** Cell size at the deepest point of the shape */
+  maxCellSize: number
+  /** Exponent applied to the normalized wall distance: >1 keeps cells dense for longer */
+  falloff: number
+  /** Number of concentric density bands */
+  bands: number
+}
+
+const HAS_PATTERN: ParamCondition = { key: 'fillPattern', not: [INFILL_PATTERN.NONE] }
+const IS_GRADIENT: ParamCondition = { key: 'infillDensity', is: ['gradient'] }
+
+/** Shared Infill param group, appended to every project that declares infill parts */
+export const INFILL_PARAM_DEFS: ParamDef[] = [
+  {
+    key: 'fillPattern', label: 'Fill Pattern', kind: 'enum', group: 'Infill',
+    // Imported SVG tiles show up as extra fill patterns
+    dynamicOptions: () => getTiles().map((t) => ({ value: tilePattern(t.id), label: t.name })),
+    options: [
+      { value: INFILL_PATTERN.NONE, label: 'None' },
+      { value: INFILL_PATTERN.HONEYCOMB, label: 'Honeycomb' },
+      { value: INFILL_PATTERN.TRIANGLE, label: 'Triangle' },
+      { value: INFILL_PATTERN.RECTILINEAR, label: 'Rectilinear' },
+      { value: INFILL_PATTERN.GRID, label: 'Grid' },
+      { value: INFILL_PATTERN.CONCENTRIC, label: 'Concentric' },
+      { value: INFILL_PATTERN.GYROID, label: 'Gyroid' },
+      { value: INFILL_PATTERN.VORONOI, label: 'Voronoi' },
+    ],
+  },
+  {
+    key: 'patternOrigin', label: 'Pattern Origin', kind: 'enum', group: 'Infill', visibleWhen: [HAS_PATTERN],
+    options: [
+      { value: 'bottom', label: 'From Bottom' },
+      { value: 'top', label: 'From Top' },
+    ],
+  },
+  {
+    key: 'cellSize', label: 'Cell Size', min: 3, max: 20, step: 0.5, group: 'Infill', unitType: 'length',
+    visibleWhen: [HAS_PATTERN, { key: 'infillDensity', not: ['gradient'] }],
+  },
+  {
+    key: 'infillWallThickness', label: 'Infill Wall Thickness', min: 0.2, max: 3, step: 0.1, group: 'Infill', unitType: 'length',
+    printedWall: true, visibleWhen: [HAS_PATTERN],
+  },
+  {
+    key: 'infillAngle', label: 'Line Angle', min: 0, max: 180, step: 5, group: 'Infill', unitType: 'angle',
+    visibleWhen: [{ key: 'fillPattern', is: [INFILL_PATTERN.RECTILINEAR, INFILL_PATTERN.GRID] }],
+  },
+  {
+    key: 'infillSeed', label: 'Voronoi Seed', min: 0, max: 100, step: 1, group: 'Infill', unitType: 'count',
+    visibleWhen: [{ key: 'fillPattern', is: [INFILL_PATTERN.VORONOI] }],
+  },
+  {
+    key: 'infillDensity', label: 'Density', kind: 'enum', group: 'Infill', visibleWhen: [HAS_PATTERN],
+    options: [
+      { value: 'uniform', label: 'Uniform' },
+      { value: 'gradient', label: 'Gradient' },
+    ],
+  },
+  {
+    key: 'minCellSize', label: 'Min Cell Size (at wall)', min: 2, max: 20, step: 0.5, group: 'Infill', unitType: 'length',
+    visibleWhen: [HAS_PATTERN, IS_GRADIENT],
+  },
+  {
+    key: 'maxCellSize', label: 'Max Cell Size (at core)', min: 3, max: 40, step: 0.5, group: 'Infill', unitType: 'length',
+    visibleWhen: [HAS_PATTERN, IS_GRADIENT],
+  },
+  {
+    key: 'gradientFalloff', label: 'Falloff Curve', min: 0.25, max: 4, step: 0.05, group: 'Infill', unitType: 'ratio',
+    visibleWhen: [HAS_PATTERN, IS_GRADIENT],
+  },
+  {
+    key: 'gradientBands', label: 'Density Bands', min: 2, max: 8, step: 1, group: 'Infill', unitType: 'count',
+    visibleWhen: [HAS_PATTERN, IS_GRADIENT],
+  },
+]
+
+/** Defaults for the shared Infill params (authored in mm) */
+export const INFILL_DEFAULT_PARAMS: ProjectParams = {
+  fillPattern: INFILL_PATTERN.HONEYCOMB,
+  patternOrigin: 'bottom',
+  cellSize: 6,
+  infillWallThickness: 0.8,
+  infillAngle: 45,
+  infillSeed: 1,
+  infillDensity: 'uniform',
+  minCellSize: 4,
+  maxCellSize: 12,
+  gradientFalloff: 1,
+  gradientBands: 3,
+}
+
+/** Cross-param rules for the shared Infill params */
+export const INFILL_CONSTRAINTS: ParamConstraint[] = [
+  { key: 'minCellSize', op: '<=', other: 'maxCellSize', message: 'Min cell size must not exceed the max cell size' },
+]
+
+/** On/off ParamDef for a part that can opt into infill */
+export function infillToggleParamDef(key: string, label: string): ParamDef {
+  return { key, label: `${label} Infill`, kind: 'boolean', group: 'Infill' }
+}
+
+/** Read the shared Infill params into an InfillConfig for a slab of the given depth */
+export function infillConfigFromParams(params: ProjectParams, depth: number): InfillConfig {
+  const pattern = stringParam(params, 'fillPattern')
+  const tileId = patternTileId(pattern)
+  const withDefaults = { ...INFILL_DEFAULT_PARAMS, ...params }
+  return {
+    pattern,
+    cellSize: numberParam(params, 'cellSize'),
+    wallThickness: numberParam(params, 'infillWallThickness'),
+    depth,
+    fromTop: params.patternOrigin === 'top',
+    angle: numberParam(withDefaults, 'infillAngle'),
+    seed: numberParam(withDefaults, 'infillSeed'),
+    gradient: params.infillDensity === 'gradient'
+      ? {
+          minCellSize: numberParam(params, 'minCellSize'),
+          maxCellSize: numberParam(params, 'maxCellSize'),
+          falloff: numberParam(params, 'gradientFalloff'),
+          bands: numberParam(params, 'gradientBands'),
+        }
+      : undefined,
+    tile: tileId !== null ? getTileShape(tileId) : undefined,
+  }
+}
+
+// ── 2D polygon helpers ──
+
+interface Bounds2D {
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+}
+
+function polygonBounds(points: THREE.Vector2[]): Bounds2D {
+  const b = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity }
+  for (const p of points) {
+    b.minX = Math.min(b.minX, p.x)
+    b.maxX = Math.max(b.maxX, p.x)
+    b.minY = Math.min(b.minY, p.y)
+    b.maxY = Math.max(b.maxY, p.y)
+  }
+  return b
+}
+
+/** Even-odd ray cast point-in-polygon test */
+export function pointInPolygon(px: number, py: number, points: THREE.Vector2[]): boolean {
+  let inside = false
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i], b = points[j]
+    if ((a.y > py) !== (b.y > py) && px < ((b.x - a.x) * (py - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/** Shortest distance from a point to the edges of a closed polygon */
+export function distanceToPolygon(px: number, py: number, points: THREE.Vector2[]): number {
+  let best = Infinity
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[j], b = points[i]
+    const ex = b.x - a.x, ey = b.y - a.y
+    const lenSq = ex * ex + ey * ey
+    const t = lenSq > 0 ? Math.max(0, Math.min(1, ((px - a.x) * ex + (py - a.y) * ey) / lenSq)) : 0
+    const dx = a.x + t * ex - px, dy = a.y + t * ey - py
+    best = Math.min(best, dx * dx + dy * dy)
+  }
+  return Math.sqrt(best)
+}
+
+/**
+ * Offset a closed polygon by `distance` (positive grows it outward, negative shrinks it).
+ * Uses mitered corners, clamped so sharp vertices don't spike. Works on either winding.
+ */
+export function offsetPolygon(points: THREE.Vector2[], distance: number): THREE.Vector2[] {
+  const n = points.length
+  if (n < 3 || distance === 0) return points.map((p) => p.clone())
+  // Outward normals point right of the edge direction for CW, left for CCW
+  const sign = THREE.ShapeUtils.isClockWise(points) ? -1 : 1
+  const out: THREE.Vector2[] = []
+  for (let i = 0; i < n; i++) {
+    const prev = points[(i + n - 1) % n]
+    const curr = points[i]
+    const next = points[(i + 1) % n]
+    const d0 = new THREE.Vector2().subVectors(curr, prev).normalize()
+    const d1 = new THREE.Vector2().subVectors(next, curr).normalize()
+    const n0 = new THREE.Vector2(d0.y, -d0.x).multiplyScalar(sign)
+    const n1 = new THREE.Vector2(d1.y, -d1.x).multiplyScalar(sign)
+    const bis = new THREE.Vector2().addVectors(n0, n1)
+    const bisLen = bis.length()
+    if (bisLen < 1e-6) {
+      out.push(curr.clone().addScaledVector(n0, distance))
+      continue
+    }
+    bis.divideScalar(bisLen)
+    const miter = Math.min(1 / Math.max(bis.dot(n0), 1e-3), 4)
+    out.push(curr.clone().addScaledVector(bis, distance * miter))
+  }
+  return out
+}
+
+/** Drop repeated consecutive points, including the closing point that closePath() adds */
+export function dedupePolygon(points: THREE.Vector2[]): THREE.Vector2[] {
+  const out = points.filter((p, i) => i === 0 || p.distanceToSquared(points[i - 1]) > 1e-12)
+  while (out.length > 1 && out[out.length - 1].distanceToSquared(out[0]) <= 1e-12) out.pop()
+  return out
+}
+
+/** Build a THREE.Shape from a closed outline plus optional hole outlines */
+export function polygonToShape(outline: THREE.Vector2[], holes: THREE.Vector2[][] = []): THREE.Shape {
+  const shape = new THREE.Shape(outline)
+  shape.closePath()
+  for (const h of holes) {
+    const hole = new THREE.Path(h)
+    hole.closePath()
+    shape.holes.push(hole)
+  }
+  return shape
+}
+
+/** Signed polygon area (positive for CCW) */
+function polygonArea(points: THREE.Vector2[]): number {
+  let area = 0
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += points[j].x * points[i].y - points[i].x * points[j].y
+  }
+  return area / 2
+}
+
+/**
+ * Whether an inward offset has collapsed past the polygon's medial axis. Mitered
+ * offsets don't flip winding when they overshoot — edges reverse direction instead.
+ */
+function offsetCollapsed(original: THREE.Vector2[], offset: THREE.Vector2[]): boolean {
+  const n = original.length
+  for (let i = 0; i < n; i++) {
+    const j = (i + 1) % n
+    const ox = original[j].x - original[i].x, oy = original[j].y - original[i].y
+    const fx = offset[j].x - offset[i].x, fy = offset[j].y - offset[i].y
+    if (ox * fx + oy * fy <= 0) return true
+  }
+  return false
+}
+
+/** Small deterministic PRNG so a given seed always scatters the same points */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function extrudeCentered(shape: THREE.Shape, depth: number): THREE.BufferGeometry {
+  const geo = new THREE.ExtrudeGeometry(shape, { depth, bevelEnabled: false })
+  geo.translate(0, 0, -depth / 2)
+  return geo
+}
+
+function boundsRect(b: Bounds2D): THREE.Shape {
+  const shape = new THREE.Shape()
+  shape.moveTo(b.minX, b.minY)
+  shape.lineTo(b.maxX, b.minY)
+  shape.lineTo(b.maxX, b.maxY)
+  shape.lineTo(b.minX, b.maxY)
+  shape.closePath()
+  return shape
+}
+
+// ── Pattern slab generators ──
+// Each slab covers the outline's bounds plus a margin and is later clipped to the outline.
+
+interface SlabContext {
+  outline: THREE.Vector2[]
+  bounds: Bounds2D
+  anchorX: number
+  anchorY: number
+  cellSize: number
+  wallThickness: number
+  depth: number
+  angle: number
+  seed: number
+  tile?: InfillTileShape
+}
+
+/** Slab bounds grown by `margin` on every side */
+function expandBounds(b: Bounds2D, margin: number): Bounds2D {
+  return { minX: b.minX - margin, maxX: b.maxX + margin, minY: b.minY - margin, maxY: b.maxY + margin }
+}
+
+/** Whether a cell centered at (x, y) can reach the outline, so cells far outside can be skipped */
+function cellReachesOutline(x: number, y: number, outline: THREE.Vector2[], margin: number): boolean {
+  return pointInPolygon(x, y, outline) || distanceToPolygon(x, y, outline) <= margin
+}
+
+function createHoneycombSlab(ctx: SlabContext): THREE.BufferGeometry {
+  const { outline, bounds, anchorX, anchorY, cellSize, wallThickness } = ctx
+  const depth = ctx.depth + 0.02
+  const margin = cellSize * 1.5
+  const ext = expandBounds(bounds, margin)
+  const shape = boundsRect(ext)
+
+  const holeR = cellSize - wallThickness / Math.sqrt(3)
+  if (holeR <= 0.01) return extrudeCentered(shape, depth)
+
+  const spacingX = Math.sqrt(3) * cellSize
+  const spacingY = 1.5 * cellSize
+  const rowsDown = Math.ceil((anchorY - ext.minY) / spacingY) + 2
+  const rowsUp = Math.ceil((ext.maxY - anchorY) / spacingY) + 2
+  const colsLeft = Math.ceil((anchorX - ext.minX) / spacingX) + 2
+  const colsRight = Math.ceil((ext.maxX - anchorX) / spacingX) + 2
+
+  for (let rowIdx = -rowsDown; rowIdx <= rowsUp; rowIdx++) {
+    const cy = anchorY + rowIdx * spacingY
+    if (cy < ext.minY + holeR || cy > ext.maxY - holeR) continue
+
+    const rowParity = ((rowIdx % 2) + 2) % 2
+    for (let colIdx = -colsLeft; colIdx <= colsRight; colIdx++) {
+      const cx = anchorX + colIdx * spacingX + (rowParity === 1 ? spacingX / 2 : 0)
+      if (cx < ext.minX + holeR || cx > ext.maxX - holeR) continue
+      // Skip cells that can't reach the outline — keeps the CSG input small
+      if (!cellReachesOutline(cx, cy, outline, margin)) continue
+
+      const hole = new THREE.Path()
+      for (let i = 0; i <= 6; i++) {
+        const angle = (Math.PI / 6) + (i * Math.PI) / 3
+        const hx = cx + holeR * Math.cos(angle)
+        const hy = cy + holeR * Math.sin(angle)
+        if (i === 0) hole.moveTo(hx, hy)
+        else hole.lineTo(hx, hy)
+      }
+      hole.closePath()
+      shape.holes.push(hole)
+    }
+  }
+
+  return extrudeCentered(shape, depth)
+}
+
+/** Parallel wall strips at `theta`, spaced `spacing` apart and passing through the anchor */
+function parallelLines(ctx: SlabContext, theta: number, spacing: number): THREE.BufferGeometry[] {
+  const { bounds, anchorX, anchorY, wallThickness } = ctx
+  const depth = ctx.depth + 0.02
+  const margin = ctx.cellSize * 2
+  const cx = (bounds.minX + bounds.maxX) / 2
+  const cy = (bounds.minY + bounds.maxY) / 2
+  const diag = Math.hypot(bounds.maxX - bounds.minX + margin * 2, bounds.maxY - bounds.minY + margin * 2)
+  const nx = -Math.sin(theta)
+  const ny = Math.cos(theta)
+  // Project the anchor and the bounds center onto the line normal
+  const anchorProj = anchorX * nx + anchorY * ny
+  const centerProj = cx * nx + cy * ny
+  const first = anchorProj + Math.floor((centerProj - diag / 2 - anchorProj) / spacing) * spacing
+  const geos: THREE.BufferGeometry[] = []
+  for (let offset = first; offset <= centerProj + diag / 2; offset += spacing) {
+    const box = new THREE.BoxGeometry(diag * 2, wallThickness, depth)
+    box.rotateZ(theta)
+    // Slide along the line direction so the strip stays centered on the bounds
+    const along = cx * Math.cos(theta) + cy * Math.sin(theta)
+    box.translate(offset * nx + along * Math.cos(theta), offset * ny + along * Math.sin(theta), 0)
+    geos.push(box)
+  }
+  return geos
+}
+
+function mergeAndDispose(geos: THREE.BufferGeometry[]): THREE.BufferGeometry {
+  const merged = mergeGeometries(geos)
+  for (const g of geos) g.dispose()
+  return merged
+}
+
+function createTriangleSlab(ctx: SlabContext): THREE.BufferGeometry {
+  return mergeAndDispose([
+    ...parallelLines(ctx, 0, ctx.cellSize),
+    ...parallelLines(ctx, Math.PI / 3, ctx.cellSize),
+    ...parallelLines(ctx, -Math.PI / 3, ctx.cellSize),
+  ])
+}
+
+function createRectilinearSlab(ctx: SlabContext): THREE.BufferGeometry {
+  const theta = THREE.MathUtils.degToRad(ctx.angle)
+  return mergeAndDispose(parallelLines(ctx, theta, ctx.cellSize))
+}
+
+function createGridSlab(ctx: SlabContext): THREE.BufferGeometry {
+  const theta = THREE.MathUtils.degToRad(ctx.angle)
+  return mergeAndDispose([
+    ...parallelLines(ctx, theta, ctx.cellSize),
+    ...parallelLines(ctx, theta + Math.PI / 2, ctx.cellSize),
+  ])
+}
+
+/**
+ * Rings that follow the outline inward every `cellSize`. The rings are tied to the
+ * boundary itself, so the pattern origin has no effect here.
+ */
+function createConcentricSlab(ctx: SlabContext): THREE.BufferGeometry | null {
+  const { outline, cellSize, wallThickness } = ctx
+  const depth = ctx.depth + 0.02
+  const outerArea = Math.abs(polygonArea(outline))
+  const geos: THREE.BufferGeometry[] = []
+  for (let inset = cellSize; ; inset += cellSize) {
+    const ringOuter = offsetPolygon(outline, -(inset - wallThickness / 2))
+    const ringInner = offsetPolygon(outline, -(inset + wallThickness / 2))
+    // Stop once the inset collapses or becomes negligible
+    if (offsetCollapsed(outline, ringOuter) || Math.abs(polygonArea(ringOuter)) < outerArea * 1e-3) break
+    const innerCollapsed = offsetCollapsed(outline, ringInner)
+    const ring = polygonToShape(ringOuter, innerCollapsed ? [] : [ringInner])
+    geos.push(extrudeCentered(ring, depth))
+    if (innerCollapsed || geos.length > 500) break
+  }
+  return geos.length > 0 ? mergeAndDispose(geos) : null
+}
+
+/** Stroke a polyline into a ribbon shape of the given width (a ring when closed) */
+function strokePolyline(pts: THREE.Vector2[], closed: boolean, width: number): THREE.Shape {
+  const left: THREE.Vector2[] = []
+  const right: THREE.Vector2[] = []
+  const n = pts.length
+  for (let i = 0; i < n; i++) {
+    const a = closed ? pts[(i + n - 1) % n] : pts[Math.max(i - 1, 0)]
+    const b = closed ? pts[(i + 1) % n] : pts[Math.min(i + 1, n - 1)]
+    const dir = new THREE.Vector2().subVectors(b, a).normalize()
+    const normal = new THREE.Vector2(-dir.y, dir.x).multiplyScalar(width / 2)
+    left.push(pts[i].clone().add(normal))
+    right.push(pts[i].clone().sub(normal))
+  }
+  if (closed) {
+    const [outer, inner] = Math.abs(polygonArea(left)) > Math.abs(polygonArea(right)) ? [left, right] : [right, left]
+    return polygonToShape(outer, [inner])
+  }
+  return polygonToShape([...left, ...right.reverse()])
+}
+
+/**
+ * Cross-section of a gyroid surface at mid-depth. The iso-line is traced with marching
+ * squares, chained into polylines, and each polyline is stroked into a `wallThickness`
+ * ribbon — one shape per curve keeps the CSG input small.
+ */
+function createGyroidSlab(ctx: SlabContext): THREE.BufferGeometry | null {
+  const { outline, bounds, anchorX, anchorY, cellSize, wallThickness } = ctx
+  const depth = ctx.depth + 0.02
+  const ext = expandBounds(bounds, cellSize)
+  const k = (2 * Math.PI) / cellSize
+  // Gyroid sin X cos Y + sin Y cos Z + sin Z cos X sliced at Z = 0: connected wavy walls
+  const field = (x: number, y: number) => {
+    const X = (x - anchorX) * k, Y = (y - anchorY) * k
+    return Math.sin(X) * Math.cos(Y) + Math.sin(Y)
+  }
+
+  const res = cellSize / 5
+  const nx = Math.ceil((ext.maxX - ext.minX) / res)
+  const ny = Math.ceil((ext.maxY - ext.minY) / res)
+  const values = new Float32Array((nx + 1) * (ny + 1))
+  for (let j = 0; j <= ny; j++) {
+    for (let i = 0; i <= nx; i++) {
+      values[j * (nx + 1) + i] = field(ext.minX + i * res, ext.minY + j * res)
+    }
+  }
+
+  // Crossings are keyed by grid edge so neighbouring cells share endpoints
+  const points = new Map<number, THREE.Vector2>()
+  const links = new Map<number, number[]>()
+  const hEdges = nx * (ny + 1)
+  const link = (a: number, b: number) => {
+    links.set(a, [...(links.get(a) ?? []), b])
+    links.set(b, [...(links.get(b) ?? []), a])
+  }
+
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      const corners = [[i, j], [i + 1, j], [i + 1, j + 1], [i, j + 1]]
+      const edgeIds = [j * nx + i, hEdges + j * (nx + 1) + i + 1, (j + 1) * nx + i, hEdges + j * (nx + 1) + i]
+      const crossings: number[] = []
+      for (let e = 0; e < 4; e++) {
+        const [ai, aj] = corners[e], [bi, bj] = corners[(e + 1) % 4]
+        const va = values[aj * (nx + 1) + ai], vb = values[bj * (nx + 1) + bi]
+        if ((va < 0) === (vb < 0)) continue
+        const id = edgeIds[e]
+        if (!points.has(id)) {
+          const t = va / (va - vb)
+          points.set(id, new THREE.Vector2(
+            ext.minX + (ai + (bi - ai) * t) * res,
+            ext.minY + (aj + (bj - aj) * t) * res,
+          ))
+        }
+        crossings.push(id)
+      }
+      if (crossings.length >= 2) link(crossings[0], crossings[1])
+      if (crossings.length === 4) link(crossings[2], crossings[3])
+    }
+  }
+
+  // Walk the links into polylines: open chains first (from their ends), then closed loops
+  const visited = new Set<number>()
+  const walk = (start: number): THREE.Vector2[] => {
+    const chain: THREE.Vector2[] = []
+    let prev = -1
+    let curr: number | undefined = start
+    while (curr !== undefined && !visited.has(curr)) {
+      visited.add(curr)
+      chain.push(points.get(curr)!)
+      const next: number | undefined = (links.get(curr) ?? []).find((n) => n !== prev && !visited.has(n))
+      prev = curr
+      curr = next
+    }
+    return chain
+  }
+  const chains: { pts: THREE.Vector2[]; closed: boolean }[] = []
+  for (const [id, ns] of links) {
+    if (ns.length === 1 && !visited.has(id)) chains.push({ pts: walk(id), closed: false })
+  }
+  for (const id of links.keys()) {
+    if (!visited.has(id)) chains.push({ pts: walk(id), closed: true })
+  }
+
+  const geos: THREE.BufferGeometry[] = []
+  for (const { pts, closed } of chains) {
+    if (pts.length < 2) continue
+    if (!pts.some((p) => cellReachesOutline(p.x, p.y, outline, cellSize))) continue
+    geos.push(extrudeCentered(strokePolyline(pts, closed, wallThickness), depth))
+  }
+  return geos.length > 0 ? mergeAndDispose(geos) : null
+}
+
+/** Seeded Voronoi cells: jittered points on a `cellSize` grid, each cell shrunk by half a wall */
+function createVoronoiSlab(ctx: SlabContext): THREE.BufferGeometry {
+  const { outline, bounds, anchorX, anchorY, cellSize, wallThickness } = ctx
+  const depth = ctx.depth + 0.02
+  const margin = cellSize * 1.5
+  const ext = expandBounds(bounds, margin)
+  const shape = boundsRect(ext)
+
+  const i0 = Math.floor((ext.minX - anchorX) / cellSize) - 2
+  const i1 = Math.ceil((ext.maxX - anchorX) / cellSize) + 2
+  const j0 = Math.floor((ext.minY - anchorY) / cellSize) - 2
+  const j1 = Math.ceil((ext.maxY - anchorY) / cellSize) + 2
+  const cols = i1 - i0 + 1
+  const rand = mulberry32(ctx.seed * 7919 + 1)
+  const seeds: THREE.Vector2[] = []
+  for (let j = j0; j <= j1; j++) {
+    for (let i = i0; i <= i1; i++) {
+      seeds.push(new THREE.Vector2(
+        anchorX + (i + 0.15 + rand() * 0.7) * cellSize,
+        anchorY + (j + 0.15 + rand() * 0.7) * cellSize,
+      ))
+    }
+  }
+
+  // Clip a square around each seed by the bisectors with its grid neighbours
+  const clip = (poly: THREE.Vector2[], p: THREE.Vector2, q: THREE.Vector2): THREE.Vector2[] => {
+    const mid = new THREE.Vector2().addVectors(p, q).multiplyScalar(0.5)
+    const n = new THREE.Vector2().subVectors(q, p)
+    const side = (v: THREE.Vector2) => (v.x - mid.x) * n.x + (v.y - mid.y) * n.y
+    const out: THREE.Vector2[] = []
+    for (let k = 0; k < poly.length; k++) {
+      const a = poly[k], b = poly[(k + 1) % poly.length]
+      const sa = side(a), sb = side(b)
+      if (sa <= 0) out.push(a)
+      if ((sa <= 0) !== (sb <= 0)) out.push(a.clone().lerp(b, sa / (sa - sb)))
+    }
+    return out
+  }
+
+  for (let j = j0 + 2; j <= j1 - 2; j++) {
+    for (let i = i0 + 2; i <= i1 - 2; i++) {
+      const site = seeds[(j - j0) * cols + (i - i0)]
+      if (!cellReachesOutline(site.x, site.y, outline, margin)) continue
+      let cell = [
+        new THREE.Vector2(site.x - cellSize * 2, site.y - cellSize * 2),
+        new THREE.Vector2(site.x + cellSize * 2, site.y - cellSize * 2),
+        new THREE.Vector2(site.x + cellSize * 2, site.y + cellSize * 2),
+        new THREE.Vector2(site.x - cellSize * 2, site.y + cellSize * 2),
+      ]
+      for (let dj = -2; dj <= 2; dj++) {
+        for (let di = -2; di <= 2; di++) {
+          if (di === 0 && dj === 0) continue
+          cell = clip(cell, site, seeds[(j + dj - j0) * cols + (i + di - i0)])
+          if (cell.length < 3) break
+        }
+      }
+      if (cell.length < 3) continue
+      const hole = offsetPolygon(cell, -wallThickness / 2)
+      if (polygonArea(hole) <= 0.01) continue
+      const hb = polygonBounds(hole)
+      if (hb.minX < ext.minX || hb.maxX > ext.maxX || hb.minY < ext.minY || hb.maxY > ext.maxY) continue
+      shape.holes.push(new THREE.Path(hole))
+    }
+  }
+
+  return extrudeCentered(shape, depth)
+}
+
+/**
+ * Repeat an imported SVG tile across the bounds. The tile is scaled so its width equals
+ * `cellSize`; filled SVG paths become solid walls and stroked paths are drawn at
+ * `wallThickness`, so both params behave like they do for the built-in patterns.
+ */
+function createTileSlab(ctx: SlabContext, tile: InfillTileShape): THREE.BufferGeometry | null {
+  const { outline, bounds, anchorX, anchorY, cellSize, wallThickness } = ctx
+  const depth = ctx.depth + 0.02
+  if (tile.width <= 0 || tile.height <= 0) return null
+  const scale = cellSize / tile.width
+  const tileW = cellSize
+  const tileH = tile.height * scale
+  const toVec = ([x, y]: [number, number]) => new THREE.Vector2(x * scale, y * scale)
+
+  // Build one tile in tile-local space, then instance it by translation
+  const parts: THREE.BufferGeometry[] = []
+  for (const fill of tile.fills) {
+    parts.push(extrudeCentered(polygonToShape(fill.outline.map(toVec), fill.holes.map((h) => h.map(toVec))), depth))
+  }
+  for (const stroke of tile.strokes) {
+    if (stroke.points.length < 2) continue
+    parts.push(extrudeCentered(strokePolyline(stroke.points.map(toVec), stroke.closed, wallThickness), depth))
+  }
+  if (parts.length === 0) return null
+  const tileGeo = mergeAndDispose(parts)
+
+  const ext = expandBounds(bounds, Math.max(tileW, tileH))
+  const i0 = Math.floor((ext.minX - anchorX) / tileW)
+  const i1 = Math.ceil((ext.maxX - anchorX) / tileW)
+  const j0 = Math.floor((ext.minY - anchorY) / tileH)
+  const j1 = Math.ceil((ext.maxY - anchorY) / tileH)
+  const margin = Math.hypot(tileW, tileH)
+  const geos: THREE.BufferGeometry[] = []
+  for (let j = j0; j <= j1; j++) {
+    for (let i = i0; i <= i1; i++) {
+      const x = anchorX + i * tileW, y = anchorY + j * tileH
+      if (!cellReachesOutline(x + tileW / 2, y + tileH / 2, outline, margin)) continue
+      geos.push(tileGeo.clone().translate(x, y, 0))
+    }
+  }
+  tileGeo.dispose()
+  return geos.length > 0 ? mergeAndDispose(geos) : null
+}
+
+function createPatternSlab(pattern: string, ctx: SlabContext): THREE.BufferGeometry | null {
+  if (ctx.tile) return createTileSlab(ctx, ctx.tile)
+  switch (pattern) {
+    case INFILL_PATTERN.HONEYCOMB:
+      return createHoneycombSlab(ctx)
+    case INFILL_PATTERN.TRIANGLE:
+      return createTriangleSlab(ctx)
+    case INFILL_PATTERN.RECTILINEAR:
+      return createRectilinearSlab(ctx)
+    case INFILL_PATTERN.GRID:
+      return createGridSlab(ctx)
+    case INFILL_PATTERN.CONCENTRIC:
+      return createConcentricSlab(ctx)
+    case INFILL_PATTERN.GYROID:
+      return createGyroidSlab(ctx)
+    case INFILL_PATTERN.VORONOI:
+      return createVoronoiSlab(ctx)
+    default:
+      return null
+  }
+}
+
+// ── CSG infill generator ──
+
+interface Anchor {
+  x: number
+  y: number
+}
+
+/** Clip one uniform pattern slab to the extruded bounding shape */
+function generateUniformInfill(
+  boundingShape: THREE.Shape,
+  outline: THREE.Vector2[],
+  anchor: Anchor,
+  cellSize: number,
+  config: InfillConfig,
+): THREE.BufferGeometry | null {
+  const patternGeo = createPatternSlab(config.pattern, {
+    outline,
+    bounds: polygonBounds(outline),
+    anchorX: anchor.x,
+    anchorY: anchor.y,
+    cellSize,
+    wallThickness: config.wallThickness,
+    depth: config.depth,
+    angle: config.angle,
+    seed: config.seed,
+    tile: config.tile,
+  })
+  if (!patternGeo) return null
+
+  const clipGeo = extrudeCentered(boundingShape, config.depth)
+
+  try {
+    const evaluator = new Evaluator()
+    const clipBrush = new Brush(clipGeo)
+    clipBrush.updateMatrixWorld()
+    const patternBrush = new Brush(patternGeo)
+    patternBrush.updateMatrixWorld()
+
+    const result = evaluator.evaluate(clipBrush, patternBrush, INTERSECTION)
+    const resultGeo = result.geometry
+    resultGeo.computeVertexNormals()
+    return resultGeo
+  } catch {
+    return null
+  } finally {
+    clipGeo.dispose()
+    patternGeo.dispose()
+  }
+}
+
+/** Deepest point inside the outline, i.e. how far the bands can reach from the wall */
+function maxInsetDistance(outline: THREE.Vector2[], bounds: Bounds2D): number {
+  const samples = 40
+  let best = 0
+  for (let j = 0; j <= samples; j++) {
+    for (let i = 0; i <= samples; i++) {
+      const x = bounds.minX + ((bounds.maxX - bounds.minX) * i) / samples
+      const y = bounds.minY + ((bounds.maxY - bounds.minY) * j) / samples
+      if (pointInPolygon(x, y, outline)) best = Math.max(best, distanceToPolygon(x, y, outline))
+    }
+  }
+  return best
+}
+
+/**
+ * Variable-density infill: the outline is split into concentric bands by distance to
+ * the boundary, each band gets its own cell size (dense at the wall, sparse at the
+ * core, shaped by the falloff curve) and a thin seam wall ties neighbouring bands together.
+ */
+function generateGradientInfill(
+  boundingShape: THREE.Shape,
+  outline: THREE.Vector2[],
+  anchor: Anchor,
+  gradient: InfillGradient,
+  config: InfillConfig,
+): THREE.BufferGeometry | null {
+  const holes = boundingShape.holes.map((h) => dedupePolygon(h.getPoints(12)))
+  const reach = maxInsetDistance(outline, polygonBounds(outline))
+  const bands = Math.max(1, Math.round(gradient.bands))
+  const w = config.wallThickness
+  const geos: THREE.BufferGeometry[] = []
+
+  for (let i = 0; i < bands; i++) {
+    const outer = i === 0 ? outline : offsetPolygon(outline, -(reach * i) / bands)
+    if (offsetCollapsed(outline, outer)) break
+    const innerOffset = offsetPolygon(outline, -(reach * (i + 1)) / bands)
+    const inner = i < bands - 1 && !offsetCollapsed(outline, innerOffset) ? innerOffset : null
+
+    const t = Math.pow((i + 0.5) / bands, gradient.falloff)
+    const cellSize = gradient.minCellSize + (gradient.maxCellSize - gradient.minCellSize) * t
+    const bandShape = polygonToShape(outer, inner ? [inner, ...holes] : holes)
+    const bandGeo = generateUniformInfill(bandShape, outer, anchor, cellSize, config)
+    if (bandGeo) geos.push(bandGeo)
+
+    // Seam wall along the band's inner edge so the cells of adjacent bands connect
+    if (inner) {
+      const seamOuter = offsetPolygon(inner, w / 2)
+      const seamInner = offsetPolygon(inner, -w / 2)
+      const seam = new THREE.ExtrudeGeometry(polygonToShape(seamOuter, [seamInner]), { depth: config.depth, bevelEnabled: false })
+      seam.translate(0, 0, -config.depth / 2)
+      geos.push(seam)
+    }
+  }
+
+  if (geos.length === 0) return null
+  for (const g of geos) g.clearGroups()
+  const merged = mergeGeometries(geos.map((g) => (g.index ? g.toNonIndexed() : g)))
+  for (const g of geos) g.dispose()
+  merged.computeVertexNormals()
+  return merged
+}
+
+/**
+ * Generate infill for any bounding shape (holes included). The pattern slab is
+ * clipped to the extruded shape with a CSG intersection, so callers that want the
+ * infill to bond with a surrounding wall should pass a slightly outset shape.
+ * With a gradient config the cell size varies with distance to the boundary.
+ * Returns null for the NONE pattern or when the CSG step fails, and throws when the
+ * pattern names a tile that has been removed from the library.
+ */
+export function generateInfill(boundingShape: THREE.Shape, config: InfillConfig): THREE.BufferGeometry | null {
+  if (config.pattern === INFILL_PATTERN.NONE) return null
+  if (patternTileId(config.pattern) !== null && !config.tile) {
+    throw new Error('The selected SVG tile is no longer in the tile library')
+  }
+
+  const outline = dedupePolygon(boundingShape.extractPoints(12).shape)
+  if (outline.length < 3) return null
+  const bounds = polygonBounds(outline)
+  // Every band shares one anchor so the lattice lines up across band seams
+  const anchor = {
+    x: (bounds.minX + bounds.maxX) / 2,
+    y: config.fromTop ? bounds.maxY : bounds.minY,
+  }
+
+  if (config.gradient) {
+    return generateGradientInfill(boundingShape, outline, anchor, config.gradient, config)
+  }
+  return generateUniformInfill(boundingShape, outline, anchor, config.cellSize, config)
+}
@@ -0,0 +1,354 @@
+import * as THREE from 'three'
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js'
+import { Evaluator, Brush, SUBTRACTION } from 'three-bvh-csg'
+import type { ParamDef } from '../types'
+import type { ProjectParams } from '../projects'
+import { dedupePolygon, distanceToPolygon, pointInPolygon } from './infill'
+import { numberParam, stringParam } from './params'
+
+export const LATTICE_TYPE = {
+  CUBIC: 0,
+  OCTET: 1,
+  GYROID: 2,
+} as const
+
+export interface LatticeConfig {
+  type: number
+  cellSize: number
+  /** Strut diameter for cubic/octet, sheet thickness for gyroid */
+  strutThickness: number
+  /** Solid skin left around the lattice */
+  shellThickness: number
+  /** Extrusion depth of the part (along Z) */
+  depth: number
+  /** Edge bevel of the outer skin, matching the part's solid extrusion */
+  bevel: number
+}
+
+/** Shared Lattice param group, appended to every project that declares lattice parts */
+export const LATTICE_PARAM_DEFS: ParamDef[] = [
+  {
+    key: 'latticeType', label: 'Lattice Cell', kind: 'enum', group: 'Lattice',
+    options: [
+      { value: 'cubic', label: 'Cubic' },
+      { value: 'octet', label: 'Octet' },
+      { value: 'gyroid', label: 'Gyroid' },
+    ],
+  },
+  { key: 'latticeCellSize', label: 'Lattice Cell Size', min: 2, max: 30, step: 0.5, group: 'Lattice', unitType: 'length' },
+  { key: 'latticeStrut', label: 'Strut Thickness', min: 0.3, max: 4, step: 0.1, group: 'Lattice', unitType: 'length', printedWall: true },
+  { key: 'shellThickness', label: 'Shell Thickness', min: 0.4, max: 6, step: 0.1, group: 'Lattice', unitType: 'length', printedWall: true },
+]
+
+/** Defaults for the shared Lattice params (authored in mm) */
+export const LATTICE_DEFAULT_PARAMS: ProjectParams = {
+  latticeType: 'gyroid',
+  latticeCellSize: 8,
+  latticeStrut: 1.2,
+  shellThickness: 1.6,
+}
+
+/** On/off ParamDef for a solid part that can be hollowed into a lattice */
+export function latticeToggleParamDef(key: string, label: string): ParamDef {
+  return { key, label: `${label} Lattice`, kind: 'boolean', group: 'Lattice' }
+}
+
+const LATTICE_TYPE_BY_NAME: Record<string, number> = {
+  cubic: LATTICE_TYPE.CUBIC,
+  octet: LATTICE_TYPE.OCTET,
+  gyroid: LATTICE_TYPE.GYROID,
+}
+
+/** Read the shared Lattice params into a LatticeConfig for a part of the given depth */
+export function latticeConfigFromParams(params: ProjectParams, depth: number, bevel = 0): LatticeConfig {
+  return {
+    type: LATTICE_TYPE_BY_NAME[stringParam(params, 'latticeType')] ?? LATTICE_TYPE.GYROID,
+    cellSize: numberParam(params, 'latticeCellSize'),
+    strutThickness: numberParam(params, 'latticeStrut'),
+    shellThickness: numberParam(params, 'shellThickness'),
+    depth,
+    bevel,
+  }
+}
+
+// ── Signed distance fields ──
+
+/** Distance to the nearest multiple of `period`, i.e. the coordinate folded into [0, period/2] */
+function fold(v: number, period: number): number {
+  const m = ((v % period) + period) % period
+  return Math.min(m, period - m)
+}
+
+function segmentDistance(
+  px: number, py: number, pz: number,
+  ax: number, ay: number, az: number,
+  bx: number, by: number, bz: number,
+): number {
+  const ex = bx - ax, ey = by - ay, ez = bz - az
+  const t = Math.max(0, Math.min(1, ((px - ax) * ex + (py - ay) * ey + (pz - az) * ez) / (ex * ex + ey * ey + ez * ez)))
+  const dx = ax + t * ex - px, dy = ay + t * ey - py, dz = az + t * ez - pz
+  return Math.sqrt(dx * dx + dy * dy + dz * dz)
+}
+
+/** Struts along the cube edges */
+function cubicDistance(x: number, y: number, z: number, cell: number): number {
+  const qx = fold(x, cell), qy = fold(y, cell), qz = fold(z, cell)
+  return Math.min(Math.hypot(qy, qz), Math.hypot(qx, qz), Math.hypot(qx, qy))
+}
+
+/**
+ * Octet truss: every nearest-neighbour link of the FCC lattice. The lattice is mirror
+ * symmetric about every half-cell plane, so folding into one half-cell cube leaves a
+ * single tetrahedron of struts to test.
+ */
+function octetDistance(x: number, y: number, z: number, cell: number): number {
+  const h = cell / 2
+  const qx = fold(x, cell), qy = fold(y, cell), qz = fold(z, cell)
+  return Math.min(
+    segmentDistance(qx, qy, qz, 0, 0, 0, h, h, 0),
+    segmentDistance(qx, qy, qz, 0, 0, 0, h, 0, h),
+    segmentDistance(qx, qy, qz, 0, 0, 0, 0, h, h),
+    segmentDistance(qx, qy, qz, h, h, 0, h, 0, h),
+    segmentDistance(qx, qy, qz, h, h, 0, 0, h, h),
+    segmentDistance(qx, qy, qz, h, 0, h, 0, h, h),
+  )
+}
+
+/** Gyroid sheet, with the implicit value divided by its gradient to approximate distance */
+function gyroidDistance(x: number, y: number, z: number, cell: number): number {
+  const k = (Math.PI * 2) / cell
+  const sx = Math.sin(k * x), cx = Math.cos(k * x)
+  const sy = Math.sin(k * y), cy = Math.cos(k * y)
+  const sz = Math.sin(k * z), cz = Math.cos(k * z)
+  const g = sx * cy + sy * cz + sz * cx
+  const gx = cx * cy - sz * sx
+  const gy = cy * cz - sx * sy
+  const gz = cz * cx - sy * sz
+  return Math.abs(g) / (k * Math.max(Math.sqrt(gx * gx + gy * gy + gz * gz), 0.5))
+}
+
+function latticeDistance(type: number, x: number, y: number, z: number, cell: number): number {
+  switch (type) {
+    case LATTICE_TYPE.CUBIC: return cubicDistance(x, y, z, cell)
+    case LATTICE_TYPE.OCTET: return octetDistance(x, y, z, cell)
+    default: return gyroidDistance(x, y, z, cell)
+  }
+}
+
+// ── Surface nets ──
+
+/** Scalar field sampled on a regular grid; negative is inside */
+interface SampledField {
+  values: Float32Array
+  nx: number
+  ny: number
+  nz: number
+  origin: THREE.Vector3
+  step: number
+}
+
+const CUBE_EDGES: [number, number][] = [
+  [0, 1], [2, 3], [4, 5], [6, 7],
+  [0, 2], [1, 3], [4, 6], [5, 7],
+  [0, 4], [1, 5], [2, 6], [3, 7],
+]
+
+/**
+ * Mesh the zero level set with naive surface nets: one vertex per boundary cell at the
+ * average of its edge crossings, one quad per sign-changing grid edge. The field must be
+ * positive along the grid border so the surface closes.
+ */
+function surfaceNets(field: SampledField): THREE.BufferGeometry {
+  const { values, nx, ny, nz, origin, step } = field
+  const at = (i: number, j: number, k: number) => i + nx * (j + ny * k)
+  const cx = nx - 1, cy = ny - 1
+  const cellIndex = (i: number, j: number, k: number) => i + cx * (j + cy * k)
+  const cellVertex = new Int32Array(cx * cy * (nz - 1)).fill(-1)
+  const positions: number[] = []
+  const corner = new Float32Array(8)
+
+  for (let k = 0; k < nz - 1; k++) {
+    for (let j = 0; j < ny - 1; j++) {
+      for (let i = 0; i < nx - 1; i++) {
+        let mask = 0
+        for (let c = 0; c < 8; c++) {
+          const v = values[at(i + (c & 1), j + ((c >> 1) & 1), k + ((c >> 2) & 1))]
+          corner[c] = v
+          if (v < 0) mask |= 1 << c
+        }
+        if (mask === 0 || mask === 0xff) continue
+
+        let sx = 0, sy = 0, sz = 0, count = 0
+        for (const [a, b] of CUBE_EDGES) {
+          const va = corner[a], vb = corner[b]
+          if ((va < 0) === (vb < 0)) continue
+          const t = va / (va - vb)
+          sx += (a & 1) + t * ((b & 1) - (a & 1))
+          sy += ((a >> 1) & 1) + t * (((b >> 1) & 1) - ((a >> 1) & 1))
+          sz += ((a >> 2) & 1) + t * (((b >> 2) & 1) - ((a >> 2) & 1))
+          count++
+        }
+        cellVertex[cellIndex(i, j, k)] = positions.length / 3
+        positions.push(
+          origin.x + (i + sx / count) * step,
+          origin.y + (j + sy / count) * step,
+          origin.z + (k + sz / count) * step,
+        )
+      }
+    }
+  }
+
+  const indices: number[] = []
+  const quad = (a: number, b: number, c: number, d: number, flip: boolean) => {
+    if (flip) indices.push(a, d, c, a, c, b)
+    else indices.push(a, b, c, a, c, d)
+  }
+  for (let k = 1; k < nz - 1; k++) {
+    for (let j = 1; j < ny - 1; j++) {
+      for (let i = 1; i < nx - 1; i++) {
+        const inside = values[at(i, j, k)] < 0
+        // Edge along +X shared by the four cells around it in Y/Z
+        if (inside !== (values[at(i + 1, j, k)] < 0)) {
+          quad(
+            cellVertex[cellIndex(i, j - 1, k - 1)], cellVertex[cellIndex(i, j, k - 1)],
+            cellVertex[cellIndex(i, j, k)], cellVertex[cellIndex(i, j - 1, k)], !inside,
+          )
+        }
+        if (inside !== (values[at(i, j + 1, k)] < 0)) {
+          quad(
+            cellVertex[cellIndex(i - 1, j, k - 1)], cellVertex[cellIndex(i - 1, j, k)],
+            cellVertex[cellIndex(i, j, k)], cellVertex[cellIndex(i, j, k - 1)], !inside,
+          )
+        }
+        if (inside !== (values[at(i, j, k + 1)] < 0)) {
+          quad(
+            cellVertex[cellIndex(i - 1, j - 1, k)], cellVertex[cellIndex(i, j - 1, k)],
+            cellVertex[cellIndex(i, j, k)], cellVertex[cellIndex(i - 1, j, k)], !inside,
+          )
+        }
+      }
+    }
+  }
+
+  const geo = new THREE.BufferGeometry()
+  geo.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+  geo.setIndex(indices)
+  return geo
+}
+
+// ── Generator ──
+
+/** Caps grid resolution so large parts stay at a few hundred thousand triangles */
+const MAX_LATTICE_SAMPLES = 500_000
+
+/**
+ * Hollow an extruded solid and fill the cavity with a 3D lattice. The outer skin is the
+ * exact extrusion with the cavity subtracted by CSG; the cavity and lattice are
+ * signed-distance fields meshed with surface nets. The lattice reaches into the skin by
+ * half a strut so the two bond when printed.
+ * Throws when the part is too thin to hollow, and returns null when the CSG step fails,
+ * so callers can fall back to the solid part.
+ */
+export function generateLattice(shape: THREE.Shape, config: LatticeConfig): THREE.BufferGeometry | null {
+  const { cellSize, strutThickness, shellThickness, depth, bevel } = config
+  const cavityHalfDepth = depth / 2 - shellThickness
+  if (cavityHalfDepth <= strutThickness / 2) {
+    throw new Error('Part is too thin to hollow with this shell and strut thickness')
+  }
+
+  const { shape: rawOutline, holes: rawHoles } = shape.extractPoints(12)
+  const outline = dedupePolygon(rawOutline)
+  const holes = rawHoles.map(dedupePolygon).filter((h) => h.length >= 3)
+  if (outline.length < 3) return null
+
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity
+  for (const p of outline) {
+    minX = Math.min(minX, p.x)
+    maxX = Math.max(maxX, p.x)
+    minY = Math.min(minY, p.y)
+    maxY = Math.max(maxY, p.y)
+  }
+
+  const overlap = Math.min(strutThickness, shellThickness) / 2
+  const zExtent = cavityHalfDepth + overlap
+  let step = Math.min(cellSize / 8, strutThickness / 2)
+  const volume = (maxX - minX) * (maxY - minY) * zExtent * 2
+  step = Math.max(step, Math.cbrt(volume / MAX_LATTICE_SAMPLES))
+
+  // One sample of padding past the outline and cavity faces keeps the border positive
+  const origin = new THREE.Vector3(minX - step, minY - step, -zExtent - step)
+  const nx = Math.ceil((maxX - minX) / step) + 3
+  const ny = Math.ceil((maxY - minY) / step) + 3
+  const nz = Math.ceil((zExtent * 2) / step) + 3
+
+  // Signed 2D distance to the part outline, shared by every Z layer
+  const planar = new Float32Array(nx * ny)
+  for (let j = 0; j < ny; j++) {
+    const y = origin.y + j * step
+    for (let i = 0; i < nx; i++) {
+      const x = origin.x + i * step
+      let d = distanceToPolygon(x, y, outline)
+      for (const h of holes) d = Math.min(d, distanceToPolygon(x, y, h))
+      const inside = pointInPolygon(x, y, outline) && !holes.some((h) => pointInPolygon(x, y, h))
+      planar[i + nx * j] = inside ? -d : d
+    }
+  }
+
+  const cavity = new Float32Array(nx * ny * nz)
+  const lattice = new Float32Array(nx * ny * nz)
+  const cx = (minX + maxX) / 2, cy = (minY + maxY) / 2
+  let hasCavity = false
+  for (let k = 0; k < nz; k++) {
+    const z = origin.z + k * step
+    const dz = Math.abs(z) - cavityHalfDepth
+    for (let j = 0; j < ny; j++) {
+      const y = origin.y + j * step
+      for (let i = 0; i < nx; i++) {
+        const x = origin.x + i * step
+        const idx = i + nx * (j + ny * k)
+        const c = Math.max(planar[i + nx * j] + shellThickness, dz)
+        if (c < 0) hasCavity = true
+        cavity[idx] = c
+        const l = latticeDistance(config.type, x - cx, y - cy, z, cellSize) - strutThickness / 2
+        lattice[idx] = Math.max(l, c - overlap)
+      }
+    }
+  }
+  if (!hasCavity) return null
+
+  const cavityGeo = surfaceNets({ values: cavity, nx, ny, nz, origin, step })
+  const latticeGeo = surfaceNets({ values: lattice, nx, ny, nz, origin, step })
+  const solidGeo = new THREE.ExtrudeGeometry(shape, {
+    depth,
+    bevelEnabled: bevel > 0,
+    bevelThickness: bevel,
+    bevelSize: bevel,
+    bevelOffset: 0,
+    bevelSegments: 3,
+  })
+  solidGeo.translate(0, 0, -depth / 2)
+
+  try {
+    const evaluator = new Evaluator()
+    evaluator.attributes = ['position', 'normal']
+    cavityGeo.computeVertexNormals()
+    const solidBrush = new Brush(solidGeo)
+    solidBrush.updateMatrixWorld()
+    const cavityBrush = new Brush(cavityGeo)
+    cavityBrush.updateMatrixWorld()
+    const shellGeo = evaluator.evaluate(solidBrush, cavityBrush, SUBTRACTION).geometry
+
+    latticeGeo.computeVertexNormals()
+    const latticeFlat = latticeGeo.toNonIndexed()
+    const shellFlat = shellGeo.index ? shellGeo.toNonIndexed() : shellGeo
+    const merged = mergeGeometries([shellFlat, latticeFlat])
+    for (const g of [shellGeo, shellFlat, latticeFlat]) g.dispose()
+    return merged
+  } catch {
+    return null
+  } finally {
+    solidGeo.dispose()
+    cavityGeo.dispose()
+    latticeGeo.dispose()
+  }
+}
@@ -0,0 +1,472 @@
+import * as THREE from 'three'
+import { MeshBVH } from 'three-mesh-bvh'
+
+/** Problems slicers complain about, summed over the visible meshes under an object */
+export interface MeshIntegrity {
+  meshes: number
+  triangles: number
+  /** Edges used by only one triangle: holes in the surface */
+  openEdges: number
+  /** Edges shared by more than two triangles */
+  nonManifoldEdges: number
+  /** Edges whose two triangles wind the same way, so one of them faces backwards */
+  flippedEdges: number
+  /** Closed shells wound inside out */
+  invertedShells: number
+  /** Triangles with no area */
+  degenerateTriangles: number
+  /** Pairs of triangles in the same mesh that cross each other */
+  selfIntersections: number
+  /** Counting stopped at MAX_SELF_INTERSECTIONS */
+  selfIntersectionsCapped: boolean
+}
+
+/** Stop counting crossings here; past a few, the exact number doesn't matter */
+const MAX_SELF_INTERSECTIONS = 1000
+
+export function isWatertight(report: MeshIntegrity): boolean {
+  return report.openEdges === 0 && report.nonManifoldEdges === 0
+}
+
+export function hasIntegrityProblems(report: MeshIntegrity): boolean {
+  return !isWatertight(report) || report.flippedEdges > 0 || report.invertedShells > 0
+    || report.degenerateTriangles > 0 || report.selfIntersections > 0
+}
+
+// ── Welding and topology ──
+
+/** A mesh's triangles over shared vertices, with coincident vertices merged */
+interface WeldedMesh {
+  positions: Float32Array
+  /** Three vertex ids per triangle */
+  triangles: number[]
+}
+
+/** Merge vertices closer than a millionth of the mesh's size (CSG leaves near-duplicates) */
+function weld(geometry: THREE.BufferGeometry): WeldedMesh {
+  const position = geometry.getAttribute('position')
+  const index = geometry.getIndex()
+  const box = new THREE.Box3().setFromBufferAttribute(position as THREE.BufferAttribute)
+  const tolerance = (box.getSize(new THREE.Vector3()).length() || 1) * 1e-6
+
+  const ids = new Map<string, number>()
+  const positions: number[] = []
+  const vertexId = (i: number) => {
+    const x = position.getX(i)
+    const y = position.getY(i)
+    const z = position.getZ(i)
+    const key = `${Math.round(x / tolerance)},${Math.round(y / tolerance)},${Math.round(z / tolerance)}`
+    let id = ids.get(key)
+    if (id === undefined) {
+      id = positions.length / 3
+      positions.push(x, y, z)
+      ids.set(key, id)
+    }
+    return id
+  }
+
+  const count = index ? index.count : position.count
+  const triangles: number[] = []
+  for (let i = 0; i + 2 < count; i += 3) {
+    for (let k = 0; k < 3; k++) triangles.push(vertexId(index ? index.getX(i + k) : i + k))
+  }
+  return { positions: new Float32Array(positions), triangles }
+}
+
+/** The triangles on each undirected edge, keyed by vertex pair */
+function edgeUses(triangles: number[], vertexCount: number): Map<number, number[]> {
+  const edges = new Map<number, number[]>()
+  for (let t = 0; t < triangles.length / 3; t++) {
+    for (let k = 0; k < 3; k++) {
+      const a = triangles[t * 3 + k]
+      const b = triangles[t * 3 + ((k + 1) % 3)]
+      const key = Math.min(a, b) * vertexCount + Math.max(a, b)
+      const uses = edges.get(key)
+      if (uses) uses.push(t)
+      else edges.set(key, [t])
+    }
+  }
+  return edges
+}
+
+/** Whether triangle `t` runs along the edge from `a` to `b` (rather than `b` to `a`) */
+function runsForward(triangles: number[], t: number, a: number, b: number): boolean {
+  for (let k = 0; k < 3; k++) {
+    if (triangles[t * 3 + k] === a && triangles[t * 3 + ((k + 1) % 3)] === b) return true
+  }
+  return false
+}
+
+function edgeVertices(key: number, vertexCount: number): [number, number] {
+  return [Math.floor(key / vertexCount), key % vertexCount]
+}
+
+const _a = new THREE.Vector3()
+const _b = new THREE.Vector3()
+const _c = new THREE.Vector3()
+
+function triangleArea(mesh: WeldedMesh, t: number): number {
+  _a.fromArray(mesh.positions, mesh.triangles[t * 3] * 3)
+  _b.fromArray(mesh.positions, mesh.triangles[t * 3 + 1] * 3)
+  _c.fromArray(mesh.positions, mesh.triangles[t * 3 + 2] * 3)
+  return _b.sub(_a).cross(_c.sub(_a)).length() / 2
+}
+
+function signedVolume(mesh: WeldedMesh, triangles: Iterable<number>): number {
+  let volume = 0
+  for (const t of triangles) {
+    _a.fromArray(mesh.positions, mesh.triangles[t * 3] * 3)
+    _b.fromArray(mesh.positions, mesh.triangles[t * 3 + 1] * 3)
+    _c.fromArray(mesh.positions, mesh.triangles[t * 3 + 2] * 3)
+    volume += _a.dot(_b.cross(_c)) / 6
+  }
+  return volume
+}
+
+/** Groups of triangles joined by manifold edges */
+function shells(triangleCount: number, edges: Map<number, number[]>): number[][] {
+  const neighbours: number[][] = Array.from({ length: triangleCount }, () => [])
+  for (const uses of edges.values()) {
+    if (uses.length !== 2) continue
+    neighbours[uses[0]].push(uses[1])
+    neighbours[uses[1]].push(uses[0])
+  }
+  const seen = new Uint8Array(neighbours.length)
+  const result: number[][] = []
+  for (let start = 0; start < neighbours.length; start++) {
+    if (seen[start]) continue
+    seen[start] = 1
+    const shell = [start]
+    for (let i = 0; i < shell.length; i++) {
+      for (const n of neighbours[shell[i]]) {
+        if (seen[n]) continue
+        seen[n] = 1
+        shell.push(n)
+      }
+    }
+    result.push(shell)
+  }
+  return result
+}
+
+function countSelfIntersections(mesh: WeldedMesh, limit: number): number {
+  if (mesh.triangles.length === 0 || limit <= 0) return 0
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.BufferAttribute(mesh.positions, 3))
+  geometry.setIndex(mesh.triangles.slice())
+  // Builds in place: triangle numbers below refer to the reordered index
+  const bvh = new MeshBVH(geometry)
+  const index = geometry.getIndex()!
+  const sharesVertex = (i1: number, i2: number) => {
+    for (let j = 0; j < 3; j++) {
+      const v = index.getX(i1 * 3 + j)
+      if (v === index.getX(i2 * 3) || v === index.getX(i2 * 3 + 1) || v === index.getX(i2 * 3 + 2)) return true
+    }
+    return false
+  }
+  const tolerance = new THREE.Box3().setFromArray(mesh.positions).getSize(_a).length() * 1e-6
+  const edge = new THREE.Line3()
+  const closest = new THREE.Vector3()
+  const onBoundary = (triangle: THREE.Triangle, point: THREE.Vector3) => [
+    [triangle.a, triangle.b], [triangle.b, triangle.c], [triangle.c, triangle.a],
+  ].some(([p, q]) => edge.set(p, q).closestPointToPoint(point, true, closest).distanceTo(point) <= tolerance)
+  const plane = new THREE.Plane()
+  const coplanar = (t1: THREE.Triangle, t2: THREE.Triangle) => {
+    t1.getPlane(plane)
+    return [t2.a, t2.b, t2.c].every((p) => Math.abs(plane.distanceToPoint(p)) <= tolerance)
+  }
+  const crossing = new THREE.Line3()
+  const middle = new THREE.Vector3()
+  let count = 0
+  bvh.bvhcast(bvh, new THREE.Matrix4(), {
+    intersectsTriangles: (t1, t2, i1, i2) => {
+      // Each pair comes up both ways round; neighbours touch by construction, and faces
+      // split across a flat seam lie in one plane
+      if (i1 >= i2 || sharesVertex(i1, i2) || coplanar(t1, t2)) return false
+      if (!t1.intersectsTriangle(t2, crossing)) return false
+      // Faces meeting along a seam (a T-junction) touch without crossing
+      crossing.getCenter(middle)
+      if (onBoundary(t1, middle) && onBoundary(t2, middle)) return false
+      count++
+      return count >= limit
+    },
+  })
+  geometry.dispose()
+  return count
+}
+
+/**
+ * Check every visible mesh under `object` for the problems that make slicers complain.
+ * Self-intersections are the slow part; skip them when only the topology matters.
+ */
+export function checkMeshIntegrity(object: THREE.Object3D, { selfIntersections = true } = {}): MeshIntegrity {
+  object.updateWorldMatrix(true, true)
+  const report: MeshIntegrity = {
+    meshes: 0,
+    triangles: 0,
+    openEdges: 0,
+    nonManifoldEdges: 0,
+    flippedEdges: 0,
+    invertedShells: 0,
+    degenerateTriangles: 0,
+    selfIntersections: 0,
+    selfIntersectionsCapped: false,
+  }
+  object.traverseVisible((child) => {
+    if (!(child as THREE.Mesh).isMesh) return
+    const source = child as THREE.Mesh
+    if (!source.geometry.getAttribute('position')) return
+    const mesh = weld(source.geometry)
+    const vertexCount = mesh.positions.length / 3
+    const triangleCount = mesh.triangles.length / 3
+    report.meshes++
+    report.triangles += triangleCount
+
+    for (let t = 0; t < triangleCount; t++) {
+      if (triangleArea(mesh, t) === 0) report.degenerateTriangles++
+    }
+    const edges = edgeUses(mesh.triangles, vertexCount)
+    for (const [key, uses] of edges) {
+      if (uses.length === 1) report.openEdges++
+      else if (uses.length > 2) report.nonManifoldEdges++
+      else {
+        const [a, b] = edgeVertices(key, vertexCount)
+        if (runsForward(mesh.triangles, uses[0], a, b) === runsForward(mesh.triangles, uses[1], a, b)) report.flippedEdges++
+      }
+    }
+
+    // A mirroring transform turns the winding inside out
+    const mirrored = source.matrixWorld.determinant() < 0
+    for (const shell of shells(triangleCount, edges)) {
+      const closed = shell.every((t) => [0, 1, 2].every((k) => {
+        const a = mesh.triangles[t * 3 + k]
+        const b = mesh.triangles[t * 3 + ((k + 1) % 3)]
+        return edges.get(Math.min(a, b) * vertexCount + Math.max(a, b))!.length === 2
+      }))
+      if (closed && (signedVolume(mesh, shell) < 0) !== mirrored) report.invertedShells++
+    }
+
+    if (selfIntersections) {
+      report.selfIntersections += countSelfIntersections(mesh, MAX_SELF_INTERSECTIONS - report.selfIntersections)
+    }
+  })
+  report.selfIntersectionsCapped = report.selfIntersections >= MAX_SELF_INTERSECTIONS
+  return report
+}
+
+// ── Repair ──
+
+/**
+ * Split triangles along open edges that have another boundary vertex lying on them, the
+ * T-junctions CSG leaves where one side of a seam was cut more finely than the other.
+ */
+function splitTJunctions(positions: ArrayLike<number>, triangles: number[], vertexCount: number, tolerance: number): number[] {
+  const edges = edgeUses(triangles, vertexCount)
+  const boundary = new Set<number>()
+  let edgeLength = 0
+  let openCount = 0
+  for (const [key, uses] of edges) {
+    if (uses.length !== 1) continue
+    const [a, b] = edgeVertices(key, vertexCount)
+    boundary.add(a)
+    boundary.add(b)
+    edgeLength += _a.fromArray(positions, a * 3).distanceTo(_b.fromArray(positions, b * 3))
+    openCount++
+  }
+  if (openCount === 0) return triangles
+
+  // Bucket the boundary vertices so each edge only tests its neighbourhood
+  const cell = Math.max(edgeLength / openCount, tolerance * 10)
+  const grid = new Map<string, number[]>()
+  const cellOf = (v: number) => [0, 1, 2].map((k) => Math.floor(positions[v * 3 + k] / cell))
+  for (const v of boundary) {
+    const key = cellOf(v).join(',')
+    const bucket = grid.get(key)
+    if (bucket) bucket.push(v)
+    else grid.set(key, [v])
+  }
+  const nearby = (a: number, b: number): Iterable<number> => {
+    const ca = cellOf(a)
+    const cb = cellOf(b)
+    const lo = ca.map((c, k) => Math.min(c, cb[k]) - 1)
+    const hi = ca.map((c, k) => Math.max(c, cb[k]) + 1)
+    if ((hi[0] - lo[0] + 1) * (hi[1] - lo[1] + 1) * (hi[2] - lo[2] + 1) > boundary.size) return boundary
+    const found: number[] = []
+    for (let x = lo[0]; x <= hi[0]; x++) {
+      for (let y = lo[1]; y <= hi[1]; y++) {
+        for (let z = lo[2]; z <= hi[2]; z++) found.push(...(grid.get(`${x},${y},${z}`) ?? []))
+      }
+    }
+    return found
+  }
+
+  const segment = new THREE.Line3()
+  const point = new THREE.Vector3()
+  const closest = new THREE.Vector3()
+  const result: number[] = []
+  const split = new Set<number>()
+  for (const [key, uses] of edges) {
+    if (uses.length !== 1) continue
+    const t = uses[0]
+    if (split.has(t)) continue
+    const [v0, v1] = edgeVertices(key, vertexCount)
+    // Walk the edge the way its triangle does, so the pieces keep its winding
+    const [a, b] = runsForward(triangles, t, v0, v1) ? [v0, v1] : [v1, v0]
+    const c = triangles[t * 3] + triangles[t * 3 + 1] + triangles[t * 3 + 2] - a - b
+    segment.set(_a.fromArray(positions, a * 3), _b.fromArray(positions, b * 3))
+    const onEdge: { v: number; at: number }[] = []
+    for (const v of nearby(a, b)) {
+      if (v === a || v === b || v === c) continue
+      point.fromArray(positions, v * 3)
+      const at = segment.closestPointToPointParameter(point, false)
+      if (at <= 0 || at >= 1) continue
+      if (segment.at(at, closest).distanceTo(point) <= tolerance) onEdge.push({ v, at })
+    }
+    if (onEdge.length === 0) continue
+    onEdge.sort((p, q) => p.at - q.at)
+    const chain = [a, ...onEdge.map((p) => p.v), b]
+    for (let i = 0; i + 1 < chain.length; i++) result.push(chain[i], chain[i + 1], c)
+    split.add(t)
+  }
+  if (split.size === 0) return triangles
+  for (let t = 0; t < triangles.length / 3; t++) {
+    if (!split.has(t)) result.push(triangles[t * 3], triangles[t * 3 + 1], triangles[t * 3 + 2])
+  }
+  return result
+}
+
+/**
+ * A cleaned-up copy of a geometry: coincident vertices welded, collapsed and duplicate
+ * triangles dropped, windings made consistent and closed shells turned outwards, holes
+ * capped with fans, and flat normals recomputed. A geometry with nothing to fix comes back
+ * as a plain copy, keeping its own normals. Self-intersections and non-manifold edges are
+ * left alone; they need a boolean union to fix.
+ */
+export function repairGeometry(geometry: THREE.BufferGeometry, mirrored = false): THREE.BufferGeometry {
+  const welded = weld(geometry)
+  const positions = Array.from(welded.positions)
+  let vertexCount = positions.length / 3
+  let changed = false
+
+  // Collapsed triangles (two corners welded together) and repeats of the same corners
+  const seen = new Set<string>()
+  let triangles: number[] = []
+  for (let t = 0; t < welded.triangles.length / 3; t++) {
+    const [a, b, c] = welded.triangles.slice(t * 3, t * 3 + 3)
+    const key = [a, b, c].sort((x, y) => x - y).join(',')
+    if (a === b || b === c || c === a || seen.has(key)) {
+      changed = true
+      continue
+    }
+    seen.add(key)
+    triangles.push(a, b, c)
+  }
+  const size = new THREE.Box3().setFromArray(positions).getSize(new THREE.Vector3()).length() || 1
+  // A triangle is split along one edge per pass
+  for (let pass = 0; pass < 4; pass++) {
+    const before = triangles
+    triangles = splitTJunctions(positions, triangles, vertexCount, size * 1e-5)
+    if (triangles === before) break
+    changed = true
+  }
+
+  // Wind each shell consistently with its first triangle
+  const flip = (t: number) => {
+    changed = true
+    const tmp = triangles[t * 3 + 1]
+    triangles[t * 3 + 1] = triangles[t * 3 + 2]
+    triangles[t * 3 + 2] = tmp
+  }
+  let edges = edgeUses(triangles, vertexCount)
+  const triangleCount = triangles.length / 3
+  const neighbours: { t: number; a: number; b: number }[][] = Array.from({ length: triangleCount }, () => [])
+  for (const [key, uses] of edges) {
+    if (uses.length !== 2) continue
+    const [a, b] = edgeVertices(key, vertexCount)
+    neighbours[uses[0]].push({ t: uses[1], a, b })
+    neighbours[uses[1]].push({ t: uses[0], a, b })
+  }
+  const visited = new Uint8Array(triangleCount)
+  for (let start = 0; start < triangleCount; start++) {
+    if (visited[start]) continue
+    visited[start] = 1
+    const shell = [start]
+    for (let i = 0; i < shell.length; i++) {
+      const t = shell[i]
+      for (const { t: n, a, b } of neighbours[t]) {
+        if (visited[n]) continue
+        visited[n] = 1
+        if (runsForward(triangles, t, a, b) === runsForward(triangles, n, a, b)) flip(n)
+        shell.push(n)
+      }
+    }
+    const mesh = { positions: welded.positions, triangles }
+    if ((signedVolume(mesh, shell) < 0) !== mirrored) shell.forEach(flip)
+  }
+
+  // Cap holes: walk each loop of open edges and fan it from its centre
+  edges = edgeUses(triangles, vertexCount)
+  const holeNext = new Map<number, number>()
+  for (const [key, uses] of edges) {
+    if (uses.length !== 1) continue
+    const [a, b] = edgeVertices(key, vertexCount)
+    // The cap runs the other way along the edge from the triangle it meets
+    if (runsForward(triangles, uses[0], a, b)) holeNext.set(b, a)
+    else holeNext.set(a, b)
+  }
+  while (holeNext.size > 0) {
+    const [start] = holeNext.keys()
+    const loop = [start]
+    let v = holeNext.get(start)!
+    holeNext.delete(start)
+    while (v !== start && holeNext.has(v)) {
+      loop.push(v)
+      const next = holeNext.get(v)!
+      holeNext.delete(v)
+      v = next
+    }
+    // A loop that doesn't close is a boundary we can't follow unambiguously
+    if (v !== start || loop.length < 3) continue
+    changed = true
+    if (loop.length === 3) {
+      triangles.push(loop[0], loop[1], loop[2])
+      continue
+    }
+    const centre = new THREE.Vector3()
+    for (const id of loop) centre.add(_a.fromArray(positions, id * 3))
+    centre.divideScalar(loop.length)
+    const centreId = vertexCount++
+    positions.push(centre.x, centre.y, centre.z)
+    loop.forEach((id, i) => triangles.push(id, loop[(i + 1) % loop.length], centreId))
+  }
+
+  if (!changed) {
+    const copy = geometry.clone()
+    if (!copy.getAttribute('normal')) copy.computeVertexNormals()
+    return copy
+  }
+
+  const repaired = new THREE.BufferGeometry()
+  repaired.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+  repaired.setIndex(triangles)
+  const flat = repaired.toNonIndexed()
+  repaired.dispose()
+  flat.computeVertexNormals()
+  return flat
+}
+
+/** A copy of `object` with every mesh's geometry repaired, for export; the original is untouched */
+export function repairObject(object: THREE.Object3D): THREE.Object3D {
+  object.updateWorldMatrix(true, true)
+  const clone = object.clone(true)
+  clone.updateWorldMatrix(true, true)
+  clone.traverse((child) => {
+    if (!(child as THREE.Mesh).isMesh) return
+    const mesh = child as THREE.Mesh
+    if (!mesh.geometry.getAttribute('position')) return
+    mesh.geometry = repairGeometry(mesh.geometry, mesh.matrixWorld.determinant() < 0)
+    // A geometry that needed repair loses its material groups
+    if (Array.isArray(mesh.material) && mesh.geometry.groups.length === 0) mesh.material = mesh.material[0]
+  })
+  return clone
+}
@@ -0,0 +1,65 @@
+import * as THREE from 'three'
+
+/** Size, volume and surface area of the visible meshes under an object, in scene units */
+export interface MeshStats {
+  size: [number, number, number]
+  volume: number
+  area: number
+  triangles: number
+  /** Meshes measured; their volumes are summed, so overlaps between them count twice */
+  meshes: number
+}
+
+const _a = new THREE.Vector3()
+const _b = new THREE.Vector3()
+const _c = new THREE.Vector3()
+const _ab = new THREE.Vector3()
+const _ac = new THREE.Vector3()
+
+/**
+ * Volume as the sum of signed tetrahedra between each triangle and the origin, which
+ * is exact for closed meshes. Open or overlapping meshes give an approximation.
+ */
+function meshVolume(mesh: THREE.Mesh): { volume: number; area: number; triangles: number } {
+  const geometry = mesh.geometry as THREE.BufferGeometry
+  const position = geometry.getAttribute('position')
+  if (!position) return { volume: 0, area: 0, triangles: 0 }
+  const index = geometry.getIndex()
+  const count = index ? index.count : position.count
+  let volume = 0
+  let area = 0
+  for (let i = 0; i + 2 < count; i += 3) {
+    const ia = index ? index.getX(i) : i
+    const ib = index ? index.getX(i + 1) : i + 1
+    const ic = index ? index.getX(i + 2) : i + 2
+    _a.fromBufferAttribute(position, ia).applyMatrix4(mesh.matrixWorld)
+    _b.fromBufferAttribute(position, ib).applyMatrix4(mesh.matrixWorld)
+    _c.fromBufferAttribute(position, ic).applyMatrix4(mesh.matrixWorld)
+    area += _ab.subVectors(_b, _a).cross(_ac.subVectors(_c, _a)).length() / 2
+    volume += _a.dot(_b.cross(_c)) / 6
+  }
+  return { volume: Math.abs(volume), area, triangles: Math.floor(count / 3) }
+}
+
+/** Measure the visible meshes under `object`, or null when there are none */
+export function measureObject(object: THREE.Object3D): MeshStats | null {
+  object.updateWorldMatrix(true, true)
+  const box = new THREE.Box3()
+  let volume = 0
+  let area = 0
+  let triangles = 0
+  let meshes = 0
+  object.traverseVisible((child) => {
+    if (!(child as THREE.Mesh).isMesh) return
+    const mesh = child as THREE.Mesh
+    box.expandByObject(mesh)
+    const stats = meshVolume(mesh)
+    volume += stats.volume
+    area += stats.area
+    triangles += stats.triangles
+    meshes++
+  })
+  if (meshes === 0) return null
+  const size = box.getSize(new THREE.Vector3())
+  return { size: [size.x, size.y, size.z], volume, area, triangles, meshes }
+}
@@ -0,0 +1,80 @@
+import type { ProjectParams } from '../projects'
+import type { EnumParamDef, NumberParamDef, ParamCondition, ParamDef, ParamValue } from '../types'
+
+export function isNumberParam(def: ParamDef): def is NumberParamDef {
+  return def.kind === undefined || def.kind === 'number'
+}
+
+/** Read a number param; anything else reads as 0, like a missing value */
+export function numberParam(params: ProjectParams, key: string): number {
+  const v = params[key]
+  return typeof v === 'number' ? v : 0
+}
+
+/** An enum's fixed options followed by its runtime ones */
+export function enumOptions(def: EnumParamDef): { value: string; label: string }[] {
+  return def.dynamicOptions ? [...def.options, ...def.dynamicOptions()] : def.options
+}
+
+export function booleanParam(params: ProjectParams, key: string): boolean {
+  return params[key] === true
+}
+
+export function stringParam(params: ProjectParams, key: string): string {
+  const v = params[key]
+  return typeof v === 'string' ? v : ''
+}
+
+const HEX_COLOR = /^#?([0-9a-f]{6})$/i
+
+/**
+ * Read a stored or typed value as the def's kind, or undefined when it can't be.
+ * Also accepts the text forms used in URLs, and the numeric encodings from before
+ * params had kinds: 0/1 for booleans, option indices for enums, 0xRRGGBB for colors.
+ */
+export function coerceParamValue(def: ParamDef, raw: unknown): ParamValue | undefined {
+  switch (def.kind) {
+    case undefined:
+    case 'number': {
+      const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw
+      return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+    }
+    case 'boolean':
+      if (typeof raw === 'boolean') return raw
+      if (raw === 1 || raw === '1' || raw === 'true') return true
+      if (raw === 0 || raw === '0' || raw === 'false') return false
+      return undefined
+    case 'color':
+      if (typeof raw === 'number' && Number.isInteger(raw) && raw >= 0 && raw <= 0xffffff) {
+        return `#${raw.toString(16).padStart(6, '0')}`
+      }
+      if (typeof raw === 'string') {
+        const match = HEX_COLOR.exec(raw)
+        return match ? `#${match[1].toLowerCase()}` : undefined
+      }
+      return undefined
+    case 'enum': {
+      const options = enumOptions(def)
+      if (typeof raw === 'number') return options[raw]?.value
+      return options.some((o) => o.value === raw) ? (raw as string) : undefined
+    }
+    case 'string':
+      return typeof raw === 'string' ? raw.slice(0, def.maxLength) : undefined
+  }
+}
+
+export function conditionHolds(condition: ParamCondition, params: ProjectParams): boolean {
+  if ('any' in condition) return condition.any.some((c) => conditionHolds(c, params))
+  const value = params[condition.key]
+  if (condition.is && !condition.is.includes(value)) return false
+  if (condition.not && condition.not.includes(value)) return false
+  return true
+}
+
+export function isParamVisible(def: ParamDef, params: ProjectParams): boolean {
+  return (def.visibleWhen ?? []).every((c) => conditionHolds(c, params))
+}
+
+export function isParamEnabled(def: ParamDef, params: ProjectParams): boolean {
+  return (def.enabledWhen ?? []).every((c) => conditionHolds(c, params))
+}
@@ -0,0 +1,96 @@
+import type { ProjectParams, ProjectPreset } from '../projects'
+import type { ParamDef } from '../types'
+import { convertParams, type UnitSystem } from './units'
+import { coerceParamValue } from './params'
+
+/** A preset saved by the user, persisted in localStorage. Params are stored in mm. */
+export interface UserPreset {
+  id: number
+  projectId: string
+  name: string
+  params: ProjectParams
+}
+
+const STORAGE_KEY = 'three3d:presets'
+
+let presets: UserPreset[] = readPresets()
+const listeners = new Set<() => void>()
+
+function readPresets(): UserPreset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as UserPreset[]) : []
+  } catch {
+    return []
+  }
+}
+
+function commit(next: UserPreset[]) {
+  presets = next
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  } catch (err) {
+    console.warn('Could not persist presets:', err)
+  }
+  for (const l of listeners) l()
+}
+
+export function getUserPresets(): UserPreset[] {
+  return presets
+}
+
+export function subscribePresets(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+/** Save params (given in `unit`) as a new preset for a project */
+export function addPreset(
+  projectId: string,
+  name: string,
+  params: ProjectParams,
+  paramDefs: ParamDef[],
+  unit: UnitSystem,
+): UserPreset {
+  const preset: UserPreset = {
+    id: presets.reduce((max, p) => Math.max(max, p.id), 0) + 1,
+    projectId,
+    name,
+    params: convertParams(params, paramDefs, unit, 'mm'),
+  }
+  commit([...presets, preset])
+  return preset
+}
+
+/** Overwrite a preset's params with the current ones (given in `unit`) */
+export function updatePreset(id: number, params: ProjectParams, paramDefs: ParamDef[], unit: UnitSystem) {
+  const stored = convertParams(params, paramDefs, unit, 'mm')
+  commit(presets.map((p) => (p.id === id ? { ...p, params: stored } : p)))
+}
+
+export function renamePreset(id: number, name: string) {
+  commit(presets.map((p) => (p.id === id ? { ...p, name } : p)))
+}
+
+export function deletePreset(id: number) {
+  commit(presets.filter((p) => p.id !== id))
+}
+
+/**
+ * Full params for a preset in the display unit. Built-in presets only list the values
+ * they change, so they're laid over the project defaults; both are authored in mm.
+ * Values saved before params had kinds (e.g. 0/1 toggles) are read as their kind.
+ */
+export function resolvePresetParams(
+  defaultParams: ProjectParams,
+  preset: ProjectPreset | UserPreset,
+  paramDefs: ParamDef[],
+  unit: UnitSystem,
+): ProjectParams {
+  const merged: ProjectParams = { ...defaultParams }
+  for (const def of paramDefs) {
+    const value = coerceParamValue(def, preset.params[def.key])
+    if (value !== undefined) merged[def.key] = value
+  }
+  return convertParams(merged, paramDefs, 'mm', unit)
+}
@@ -0,0 +1,113 @@
+import type { MeshStats } from './mesh-stats'
+import { convertValue, type UnitSystem } from './units'
+
+export interface Material {
+  id: string
+  name: string
+  /** g/cm³ */
+  density: number
+  /** Typical price per kg, in whatever currency the user thinks in */
+  costPerKg: number
+  /** Sold as filament, so the print estimates apply */
+  filament: boolean
+}
+
+export const MATERIALS: Material[] = [
+  { id: 'pla', name: 'PLA', density: 1.24, costPerKg: 20, filament: true },
+  { id: 'petg', name: 'PETG', density: 1.27, costPerKg: 22, filament: true },
+  { id: 'abs', name: 'ABS', density: 1.04, costPerKg: 20, filament: true },
+  { id: 'aluminium', name: 'Aluminium', density: 2.7, costPerKg: 6, filament: false },
+  { id: 'wood', name: 'Wood (oak)', density: 0.75, costPerKg: 3, filament: false },
+]
+
+/** Slicer settings behind the filament and time estimates. Lengths in mm. */
+export interface PrintJob {
+  layerHeight: number
+  /** Percent of the interior filled */
+  infill: number
+  /** mm/s */
+  printSpeed: number
+  filamentDiameter: number
+}
+
+export const DEFAULT_PRINT_JOB: PrintJob = {
+  layerHeight: 0.2,
+  infill: 20,
+  printSpeed: 60,
+  filamentDiameter: 1.75,
+}
+
+/** The stats panel's choices: a material, what it costs, and how it's printed */
+export interface EstimateSettings {
+  materialId: string
+  /** Price per kg by material id, where the user changed it */
+  costPerKg: Record<string, number>
+  job: PrintJob
+}
+
+export const DEFAULT_ESTIMATE_SETTINGS: EstimateSettings = {
+  materialId: 'pla',
+  costPerKg: {},
+  job: DEFAULT_PRINT_JOB,
+}
+
+export function findMaterial(id: string): Material {
+  return MATERIALS.find((m) => m.id === id) ?? MATERIALS[0]
+}
+
+export function materialCost(settings: EstimateSettings, material: Material): number {
+  return settings.costPerKg[material.id] ?? material.costPerKg
+}
+
+/** Solid skin around the infill: two perimeters of a 0.4 mm nozzle */
+const SHELL_MM = 0.8
+/** Extrusion width, a little wider than the nozzle */
+const LINE_WIDTH_MM = 0.45
+/** Travel, retraction and acceleration on top of pure extrusion time */
+const TIME_OVERHEAD = 1.3
+
+/** What the model takes to make, in mm, g and seconds */
+export interface ModelEstimate {
+  /** Material actually used: everything for solid materials, shell plus infill when printed */
+  materialVolume: number
+  mass: number
+  cost: number
+  /** Null for materials that aren't printed */
+  filamentLength: number | null
+  printTime: number | null
+}
+
+/**
+ * Rough material and time figures from measured stats (in `unit`). The printed volume
+ * treats the surface as a shell of SHELL_MM over an interior filled at `infill` percent,
+ * taking the mesh volume as solid: modelled infill is thinned again, and overlapping
+ * parts are counted once per part.
+ */
+export function estimateModel(stats: MeshStats, unit: UnitSystem, settings: EstimateSettings): ModelEstimate {
+  const { job } = settings
+  const material = findMaterial(settings.materialId)
+  const mmPerUnit = convertValue(1, 'length', unit, 'mm')
+  const volume = stats.volume * mmPerUnit ** 3
+  const area = stats.area * mmPerUnit ** 2
+
+  let materialVolume = volume
+  let filamentLength: number | null = null
+  let printTime: number | null = null
+  if (material.filament) {
+    const shell = Math.min(volume, area * SHELL_MM)
+    materialVolume = shell + (volume - shell) * (job.infill / 100)
+    filamentLength = materialVolume / (Math.PI * (job.filamentDiameter / 2) ** 2)
+    printTime = (materialVolume / (job.layerHeight * LINE_WIDTH_MM * job.printSpeed)) * TIME_OVERHEAD
+  }
+  // mm³ to cm³ for the density
+  const mass = (materialVolume / 1000) * material.density
+  const cost = (mass / 1000) * materialCost(settings, material)
+  return { materialVolume, mass, cost, filamentLength, printTime }
+}
+
+/** `2 h 05 min`, or `12 min` under an hour */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes} min`
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`
+}
@@ -0,0 +1,270 @@
+import * as THREE from 'three'
+import { MeshBVH } from 'three-mesh-bvh'
+import type { ProjectParams } from '../projects'
+import type { NumberParamDef, ParamDef } from '../types'
+import { isNumberParam, isParamEnabled, isParamVisible } from './params'
+import { convertValue, scaleParamDef, type UnitSystem } from './units'
+
+/** Printer limits the analysis checks against. Lengths are in mm, whatever the display unit. */
+export interface PrintSettings {
+  /** Degrees from vertical that a downward-facing surface can lean before it needs support */
+  overhangAngle: number
+  nozzleDiameter: number
+  minFeatureSize: number
+}
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+  overhangAngle: 45,
+  nozzleDiameter: 0.4,
+  minFeatureSize: 0.8,
+}
+
+export type PrintIssueKind = 'overhang' | 'thinWall' | 'smallFeature'
+
+export const PRINT_ISSUE_KINDS: PrintIssueKind[] = ['overhang', 'thinWall', 'smallFeature']
+
+/** How each issue is named and shaded in the overlay */
+export const PRINT_ISSUE_STYLES: Record<PrintIssueKind, { label: string; color: string }> = {
+  overhang: { label: 'Overhangs', color: '#f59e0b' },
+  thinWall: { label: 'Thin walls', color: '#ef4444' },
+  smallFeature: { label: 'Small features', color: '#d946ef' },
+}
+
+/** What the analysis found in a model, in scene units */
+export interface PrintAnalysis {
+  /** Flagged triangles per issue, as world-space xyz triplets */
+  triangles: Record<PrintIssueKind, Float32Array>
+  /** Flagged surface area per issue */
+  area: Record<PrintIssueKind, number>
+  totalArea: number
+  /** Thinnest wall measured below the nozzle diameter, or null when none are */
+  thinnestWall: number | null
+  /** Loose pieces too small to print */
+  smallFeatures: number
+  /** Walls are measured on every nth triangle on large models; 1 means all of them */
+  wallSampling: number
+}
+
+/** A thickness param set thinner than the nozzle can print */
+export interface ParamPrintIssue {
+  def: NumberParamDef
+  value: number
+  /** The nearest value on the param's step grid that prints, in the display unit */
+  fix: number
+}
+
+/** Cap on thickness rays, so huge infill meshes stay responsive */
+const MAX_WALL_RAYS = 100_000
+
+const _a = new THREE.Vector3()
+const _b = new THREE.Vector3()
+const _c = new THREE.Vector3()
+const _normal = new THREE.Vector3()
+const _ray = new THREE.Ray()
+
+/** Every visible triangle under `object`, flattened into world space */
+function collectTriangles(object: THREE.Object3D): Float32Array {
+  object.updateWorldMatrix(true, true)
+  const chunks: Float32Array[] = []
+  let length = 0
+  object.traverseVisible((child) => {
+    if (!(child as THREE.Mesh).isMesh) return
+    const mesh = child as THREE.Mesh
+    const position = mesh.geometry.getAttribute('position')
+    if (!position) return
+    const index = mesh.geometry.getIndex()
+    const count = index ? index.count : position.count
+    const out = new Float32Array(Math.floor(count / 3) * 9)
+    for (let i = 0; i + 2 < count; i += 3) {
+      for (let k = 0; k < 3; k++) {
+        _a.fromBufferAttribute(position, index ? index.getX(i + k) : i + k).applyMatrix4(mesh.matrixWorld)
+        _a.toArray(out, i * 3 + k * 3)
+      }
+    }
+    chunks.push(out)
+    length += out.length
+  })
+  const all = new Float32Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    all.set(chunk, offset)
+    offset += chunk.length
+  }
+  return all
+}
+
+function loadTriangle(positions: Float32Array, t: number) {
+  _a.fromArray(positions, t * 9)
+  _b.fromArray(positions, t * 9 + 3)
+  _c.fromArray(positions, t * 9 + 6)
+}
+
+/**
+ * Group triangles into pieces that share vertices, and return the piece of each triangle.
+ * Separate parts that merely overlap count as separate pieces.
+ */
+function connectedPieces(positions: Float32Array, tolerance: number): Int32Array {
+  const vertexIds = new Map<string, number>()
+  const parent: number[] = []
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+  const vertexId = (offset: number) => {
+    const key = `${Math.round(positions[offset] / tolerance)},${Math.round(positions[offset + 1] / tolerance)},${Math.round(positions[offset + 2] / tolerance)}`
+    let id = vertexIds.get(key)
+    if (id === undefined) {
+      id = parent.length
+      parent.push(id)
+      vertexIds.set(key, id)
+    }
+    return id
+  }
+
+  const triangleCount = positions.length / 9
+  const first = new Int32Array(triangleCount)
+  for (let t = 0; t < triangleCount; t++) {
+    const a = find(vertexId(t * 9))
+    const b = find(vertexId(t * 9 + 3))
+    const c = find(vertexId(t * 9 + 6))
+    parent[b] = a
+    parent[find(c)] = a
+    first[t] = a
+  }
+  for (let t = 0; t < triangleCount; t++) first[t] = find(first[t])
+  return first
+}
+
+/**
+ * Flag the triangles of a model that won't print well, with +Y up and the lowest point on the bed:
+ * - overhangs: downward faces leaning past `overhangAngle` from vertical, except those on the bed
+ * - thin walls: faces whose opposite wall, found by a ray straight inwards, is nearer than the nozzle
+ * - small features: loose pieces whose two larger sides aren't both at least `minFeatureSize`
+ *
+ * Walls are only measured through solid that a single mesh encloses, so parts that overlap
+ * without a union can hide or invent thin spots where they meet.
+ */
+export function analyzePrintability(object: THREE.Object3D, settings: PrintSettings, unit: UnitSystem): PrintAnalysis {
+  const positions = collectTriangles(object)
+  const triangleCount = positions.length / 9
+  const nozzle = convertValue(settings.nozzleDiameter, 'length', 'mm', unit)
+  const minFeature = convertValue(settings.minFeatureSize, 'length', 'mm', unit)
+  const overhangLimit = Math.sin(THREE.MathUtils.degToRad(settings.overhangAngle))
+
+  const box = new THREE.Box3()
+  for (let i = 0; i < positions.length; i += 3) box.expandByPoint(_a.fromArray(positions, i))
+  const extent = box.isEmpty() ? 1 : box.getSize(_a).length() || 1
+  const tolerance = extent * 1e-5
+  const bedY = box.min.y + tolerance * 10
+
+  const flagged: Record<PrintIssueKind, number[]> = { overhang: [], thinWall: [], smallFeature: [] }
+  const area: Record<PrintIssueKind, number> = { overhang: 0, thinWall: 0, smallFeature: 0 }
+  const areas = new Float32Array(triangleCount)
+  const normals = new Float32Array(triangleCount * 3)
+  let totalArea = 0
+
+  for (let t = 0; t < triangleCount; t++) {
+    loadTriangle(positions, t)
+    _normal.crossVectors(_b.sub(_a), _c.sub(_a))
+    const doubleArea = _normal.length()
+    if (doubleArea === 0) continue
+    _normal.divideScalar(doubleArea).toArray(normals, t * 3)
+    areas[t] = doubleArea / 2
+    totalArea += areas[t]
+
+    const onBed = Math.max(positions[t * 9 + 1], positions[t * 9 + 4], positions[t * 9 + 7]) <= bedY
+    if (-_normal.y > overhangLimit && !onBed) {
+      flagged.overhang.push(t)
+      area.overhang += areas[t]
+    }
+  }
+
+  // ── Thin walls ──
+
+  let thinnestWall: number | null = null
+  const wallSampling = Math.max(1, Math.ceil(triangleCount / MAX_WALL_RAYS))
+  if (triangleCount > 0) {
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions.slice(), 3))
+    const bvh = new MeshBVH(geometry)
+    for (let t = 0; t < triangleCount; t += wallSampling) {
+      if (areas[t] === 0) continue
+      loadTriangle(positions, t)
+      _normal.fromArray(normals, t * 3)
+      // Start just inside the centroid so the ray can't hit its own face
+      _ray.origin.copy(_a).add(_b).add(_c).divideScalar(3).addScaledVector(_normal, -tolerance)
+      _ray.direction.copy(_normal).negate()
+      const hit = bvh.raycastFirst(_ray, THREE.DoubleSide, 0, nozzle)
+      // A face turned towards the ray means it started outside any solid
+      if (!hit?.face || hit.face.normal.dot(_ray.direction) <= 0) continue
+      const thickness = hit.distance + tolerance
+      thinnestWall = Math.min(thinnestWall ?? Infinity, thickness)
+      flagged.thinWall.push(t)
+      area.thinWall += areas[t]
+    }
+    geometry.dispose()
+  }
+
+  // ── Small features ──
+
+  const pieces = connectedPieces(positions, tolerance)
+  const pieceBoxes = new Map<number, THREE.Box3>()
+  for (let t = 0; t < triangleCount; t++) {
+    let pieceBox = pieceBoxes.get(pieces[t])
+    if (!pieceBox) {
+      pieceBox = new THREE.Box3()
+      pieceBoxes.set(pieces[t], pieceBox)
+    }
+    loadTriangle(positions, t)
+    pieceBox.expandByPoint(_a).expandByPoint(_b).expandByPoint(_c)
+  }
+  const small = new Set<number>()
+  for (const [piece, pieceBox] of pieceBoxes) {
+    const sides = pieceBox.getSize(_a).toArray().sort((x, y) => x - y)
+    if (sides[1] < minFeature) small.add(piece)
+  }
+  if (small.size > 0) {
+    for (let t = 0; t < triangleCount; t++) {
+      if (!small.has(pieces[t])) continue
+      flagged.smallFeature.push(t)
+      area.smallFeature += areas[t]
+    }
+  }
+
+  const triangles = {} as Record<PrintIssueKind, Float32Array>
+  for (const kind of PRINT_ISSUE_KINDS) {
+    const out = new Float32Array(flagged[kind].length * 9)
+    flagged[kind].forEach((t, i) => out.set(positions.subarray(t * 9, t * 9 + 9), i * 9))
+    triangles[kind] = out
+  }
+
+  return { triangles, area, totalArea, thinnestWall, smallFeatures: small.size, wallSampling }
+}
+
+/**
+ * Thickness params (those marked `printedWall`) that are in use and thinner than the nozzle.
+ * `params` are in the display unit.
+ */
+export function checkParamPrintability(
+  params: ProjectParams,
+  paramDefs: ParamDef[],
+  settings: PrintSettings,
+  unit: UnitSystem,
+): ParamPrintIssue[] {
+  const nozzle = convertValue(settings.nozzleDiameter, 'length', 'mm', unit)
+  const issues: ParamPrintIssue[] = []
+  for (const def of paramDefs) {
+    if (!isNumberParam(def) || !def.printedWall) continue
+    if (!isParamVisible(def, params) || !isParamEnabled(def, params)) continue
+    const value = params[def.key]
+    if (typeof value !== 'number' || value >= nozzle - 1e-9) continue
+    const scaled = scaleParamDef(def, unit)
+    const steps = Math.ceil((nozzle - scaled.min) / scaled.step - 1e-9)
+    const fix = Number(Math.min(scaled.max, scaled.min + steps * scaled.step).toFixed(6))
+    issues.push({ def, value, fix })
+  }
+  return issues
+}
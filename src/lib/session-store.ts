@@ -0,0 +1,70 @@
+import type { DesignFile } from './design-file'
+
+/**
+ * Rolling autosave history in IndexedDB. Every autosave appends a snapshot and the
+ * oldest ones are pruned, so an accidental change that was autosaved can still be
+ * rolled back to an earlier snapshot after a reload.
+ */
+export interface SessionSnapshot {
+  id: number
+  savedAt: string
+  design: DesignFile
+}
+
+const DB_NAME = 'three3d'
+const DB_VERSION = 1
+const STORE = 'session-snapshots'
+export const MAX_SNAPSHOTS = 12
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true })
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  }).catch((err) => {
+    // Let a later call retry (e.g. after a blocked upgrade)
+    dbPromise = null
+    throw err
+  })
+  return dbPromise
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+/** Snapshots, newest first */
+export async function listSnapshots(): Promise<SessionSnapshot[]> {
+  const db = await openDb()
+  const all = await request(db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<SessionSnapshot[]>)
+  return all.sort((a, b) => b.id - a.id)
+}
+
+/** Append a snapshot and prune the history down to MAX_SNAPSHOTS */
+export async function saveSnapshot(design: DesignFile): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  const store = tx.objectStore(STORE)
+  store.add({ savedAt: design.savedAt, design })
+  const keys = await request(store.getAllKeys())
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_SNAPSHOTS))) {
+    store.delete(key)
+  }
+  await done(tx)
+}
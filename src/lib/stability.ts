@@ -0,0 +1,173 @@
+import * as THREE from 'three'
+
+/** How the model stands on the floor, in scene units */
+export interface StabilityAnalysis {
+  /** Center of mass, assuming uniform density */
+  centerOfMass: [number, number, number]
+  /** Height of the lowest point, where the floor is */
+  groundY: number
+  /** Convex hull of the contact faces as counterclockwise xz points; fewer than 3 means it rests on a point or an edge */
+  support: [number, number][]
+  /** Smallest tilt that tips the model over, in degrees; 0 when the center of mass is outside the support */
+  tippingAngle: number
+  /** Index in `support` of the edge it tips over first, or -1 without a support polygon */
+  weakestEdge: number
+  /** Bounding-box diagonal, for sizing markers */
+  size: number
+}
+
+/** Default tilt, in degrees, below which a load-bearing design counts as too easy to knock over */
+export const DEFAULT_MIN_TIPPING_ANGLE = 5
+
+/** Marker colors for the overlay and panel */
+export const STABILITY_COLORS = { stable: '#22c55e', unstable: '#ef4444' }
+
+export function isStable(analysis: StabilityAnalysis, minTippingAngle: number): boolean {
+  return analysis.tippingAngle > 0 && analysis.tippingAngle >= minTippingAngle
+}
+
+/** Faces within this share of the model's size from the floor count as touching it */
+const CONTACT_TOLERANCE = 1e-3
+
+const _a = new THREE.Vector3()
+const _b = new THREE.Vector3()
+const _c = new THREE.Vector3()
+const _cross = new THREE.Vector3()
+const _centroid = new THREE.Vector3()
+
+/** Visit each visible triangle under `object` in world space, with the mesh it belongs to */
+function forEachTriangle(
+  object: THREE.Object3D,
+  visit: (mesh: THREE.Mesh, a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3) => void,
+) {
+  object.traverseVisible((child) => {
+    if (!(child as THREE.Mesh).isMesh) return
+    const mesh = child as THREE.Mesh
+    const position = mesh.geometry.getAttribute('position')
+    if (!position) return
+    const index = mesh.geometry.getIndex()
+    const count = index ? index.count : position.count
+    for (let i = 0; i + 2 < count; i += 3) {
+      _a.fromBufferAttribute(position, index ? index.getX(i) : i).applyMatrix4(mesh.matrixWorld)
+      _b.fromBufferAttribute(position, index ? index.getX(i + 1) : i + 1).applyMatrix4(mesh.matrixWorld)
+      _c.fromBufferAttribute(position, index ? index.getX(i + 2) : i + 2).applyMatrix4(mesh.matrixWorld)
+      visit(mesh, _a, _b, _c)
+    }
+  })
+}
+
+/** Counterclockwise convex hull (Andrew's monotone chain), without collinear points */
+function convexHull(points: [number, number][]): [number, number][] {
+  const sorted = [...points].sort((p, q) => p[0] - q[0] || p[1] - q[1])
+  if (sorted.length < 3) return sorted
+  const cross = (o: [number, number], p: [number, number], q: [number, number]) =>
+    (p[0] - o[0]) * (q[1] - o[1]) - (p[1] - o[1]) * (q[0] - o[0])
+  const chain = (pts: [number, number][]) => {
+    const out: [number, number][] = []
+    for (const p of pts) {
+      while (out.length >= 2 && cross(out[out.length - 2], out[out.length - 1], p) <= 0) out.pop()
+      out.push(p)
+    }
+    out.pop()
+    return out
+  }
+  return [...chain(sorted), ...chain(sorted.reverse())]
+}
+
+/**
+ * Distance from `point` to the nearest hull edge, negative when it lies outside, and that
+ * edge's index. The hull is counterclockwise in (x, z), so the inside is left of each edge.
+ */
+function insideDistance(hull: [number, number][], point: [number, number]): { distance: number; edge: number } {
+  let nearest = Infinity
+  let edge = -1
+  for (let i = 0; i < hull.length; i++) {
+    const p = hull[i]
+    const q = hull[(i + 1) % hull.length]
+    const ex = q[0] - p[0]
+    const ez = q[1] - p[1]
+    const length = Math.hypot(ex, ez)
+    if (length === 0) continue
+    const distance = (ex * (point[1] - p[1]) - ez * (point[0] - p[0])) / length
+    if (distance < nearest) {
+      nearest = distance
+      edge = i
+    }
+  }
+  return { distance: nearest, edge }
+}
+
+/**
+ * Center of mass, footprint and tipping angle of the visible meshes under `object`, or
+ * null when there are none. The mass comes from signed tetrahedra like the volume in
+ * mesh-stats, so it is exact for closed meshes and approximate where parts overlap.
+ */
+export function analyzeStability(object: THREE.Object3D): StabilityAnalysis | null {
+  object.updateWorldMatrix(true, true)
+
+  // Volume-weighted tetrahedron centroids, summed per mesh so mirrored parts (flipped
+  // winding) still add their volume
+  const box = new THREE.Box3()
+  const moment = new THREE.Vector3()
+  const meshMoment = new THREE.Vector3()
+  let volume = 0
+  let meshVolume = 0
+  let current: THREE.Mesh | null = null
+  const addMesh = () => {
+    if (meshVolume !== 0) {
+      moment.addScaledVector(meshMoment, Math.sign(meshVolume))
+      volume += Math.abs(meshVolume)
+    }
+    meshMoment.set(0, 0, 0)
+    meshVolume = 0
+  }
+  forEachTriangle(object, (mesh, a, b, c) => {
+    if (mesh !== current) {
+      addMesh()
+      current = mesh
+    }
+    box.expandByPoint(a).expandByPoint(b).expandByPoint(c)
+    const v = a.dot(_cross.crossVectors(b, c)) / 6
+    meshVolume += v
+    meshMoment.addScaledVector(_centroid.addVectors(a, b).add(c), v / 4)
+  })
+  addMesh()
+  if (box.isEmpty()) return null
+
+  // Fall back to the box center for flat or open models with no volume to weigh
+  const center = volume > 0 ? moment.divideScalar(volume) : box.getCenter(new THREE.Vector3())
+  const groundY = box.min.y
+  const size = box.getSize(_cross).length()
+  const tolerance = size * CONTACT_TOLERANCE
+
+  // Faces lying on the floor; a rounded bottom has none, so use its lowest vertices instead
+  const faces: [number, number][] = []
+  const vertices: [number, number][] = []
+  forEachTriangle(object, (_mesh, a, b, c) => {
+    const touching = [a, b, c].filter((p) => p.y - groundY <= tolerance)
+    for (const p of touching) vertices.push([p.x, p.z])
+    if (touching.length === 3) faces.push([a.x, a.z], [b.x, b.z], [c.x, c.z])
+  })
+  let support = convexHull(faces.length > 0 ? faces : vertices)
+  // A pole or a seam made of many nearly coincident vertices is still a single point
+  const spread = support.reduce((max, [x, z]) => Math.max(max, Math.hypot(x - support[0][0], z - support[0][1])), 0)
+  if (spread <= tolerance) support = support.slice(0, 1)
+
+  const height = center.y - groundY
+  let tippingAngle = 0
+  let weakestEdge = -1
+  if (support.length >= 3) {
+    const { distance, edge } = insideDistance(support, [center.x, center.z])
+    weakestEdge = edge
+    if (distance > 0) tippingAngle = THREE.MathUtils.radToDeg(Math.atan2(distance, Math.max(height, 0)))
+  }
+
+  return {
+    centerOfMass: [center.x, center.y, center.z],
+    groundY,
+    support,
+    tippingAngle,
+    weakestEdge,
+    size,
+  }
+}
@@ -0,0 +1,35 @@
+import * as THREE from 'three'
+import { Evaluator, Brush, ADDITION } from 'three-bvh-csg'
+
+/**
+ * Boolean union of parts already placed in one coordinate space, so overlapping parts
+ * (fins sunk into a base, infill inside a frame) become a single solid. Throws when the
+ * CSG fails; an empty result comes back as null.
+ */
+export function unionGeometries(parts: THREE.BufferGeometry[]): THREE.BufferGeometry | null {
+  if (parts.length === 0) return null
+  const evaluator = new Evaluator()
+  evaluator.attributes = ['position', 'normal']
+  evaluator.useGroups = false
+
+  const toBrush = (geo: THREE.BufferGeometry) => {
+    if (!geo.getAttribute('normal')) geo.computeVertexNormals()
+    const brush = new Brush(geo)
+    brush.updateMatrixWorld()
+    return brush
+  }
+
+  let result = toBrush(parts[0])
+  for (const part of parts.slice(1)) {
+    const next = evaluator.evaluate(result, toBrush(part), ADDITION)
+    if (result.geometry !== parts[0]) result.geometry.dispose()
+    result = next
+  }
+  const geo = result.geometry
+  if (!geo.getAttribute('position') || geo.getAttribute('position').count === 0) {
+    geo.dispose()
+    return null
+  }
+  geo.computeVertexNormals()
+  return geo
+}
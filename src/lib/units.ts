@@ -1,12 +1,39 @@
-import type { UnitType, ParamDef } from '../types'
+import type { UnitType, ParamDef, NumberParamDef } from '../types'
 import type { ProjectParams } from '../projects'
+import { isNumberParam } from './params'
 
-export type UnitSystem = 'mm' | 'cm'
+export type UnitSystem = 'mm' | 'cm' | 'in'
 
-/** Conversion factor from mm to the target unit */
-const MM_TO: Record<UnitSystem, number> = {
+export const UNIT_SYSTEMS: UnitSystem[] = ['mm', 'cm', 'in']
+
+/** Length of one unit in mm (dividing by 25.4 keeps inch round trips exact) */
+const MM_PER: Record<UnitSystem, number> = {
   mm: 1,
-  cm: 0.1,
+  cm: 10,
+  in: 25.4,
+}
+
+/** How inch lengths are labelled: as decimals, or rounded to the nearest 1/16 or 1/32 */
+export type InchFraction = 'decimal' | 16 | 32
+
+/** Length suffixes accepted in typed values (`1in + 3mm`), as mm per unit */
+const LENGTH_SUFFIX_MM = new Map<string, number>([
+  ['mm', 1],
+  ['cm', 10],
+  ['m', 1000],
+  ['in', 25.4],
+  ['ft', 304.8],
+])
+
+export function isLengthSuffix(name: string): boolean {
+  return LENGTH_SUFFIX_MM.has(name)
+}
+
+/** Convert a value typed with a length suffix into a unit system */
+export function convertLength(value: number, suffix: string, to: UnitSystem): number {
+  const mmPer = LENGTH_SUFFIX_MM.get(suffix)
+  if (mmPer === undefined) throw new Error(`Unknown unit "${suffix}"`)
+  return value * mmPer / MM_PER[to]
 }
 
 /** Get the display suffix for a unit type given the current unit system */
@@ -22,14 +49,35 @@ export function unitSuffix(unitType: UnitType, unit: UnitSystem): string {
   }
 }
 
+/** Inches as a reduced mixed fraction, e.g. `1 3/16` */
+function formatInchFraction(value: number, denominator: 16 | 32): string {
+  const sign = value < 0 ? '-' : ''
+  const total = Math.round(Math.abs(value) * denominator)
+  const whole = Math.floor(total / denominator)
+  let num = total % denominator
+  let den: number = denominator
+  while (num > 0 && num % 2 === 0) {
+    num /= 2
+    den /= 2
+  }
+  if (num === 0) return `${sign}${whole}`
+  return whole > 0 ? `${sign}${whole} ${num}/${den}` : `${sign}${num}/${den}`
+}
+
+/** Label text for a length in `unit`. Inches get one more decimal, or a fraction when asked. */
+export function formatLength(value: number, unit: UnitSystem, fraction: InchFraction = 'decimal', digits = 2): string {
+  if (unit !== 'in') return value.toFixed(digits)
+  return fraction === 'decimal' ? value.toFixed(digits + 1) : formatInchFraction(value, fraction)
+}
+
 /** Convert a single value between unit systems (only affects length params) */
-function convertValue(value: number, unitType: UnitType, from: UnitSystem, to: UnitSystem): number {
+export function convertValue(value: number, unitType: UnitType, from: UnitSystem, to: UnitSystem): number {
   if (unitType !== 'length' || from === to) return value
-  // Convert: value_in_from_units * (mm_per_from_unit) * (to_units_per_mm)
-  return value / MM_TO[from] * MM_TO[to]
+  // Convert: value_in_from_units * (mm_per_from_unit) / (mm_per_to_unit)
+  return value * MM_PER[from] / MM_PER[to]
 }
 
-/** Convert all length params in a ProjectParams map when switching units */
+/** Convert all length params in a ProjectParams map when switching units; other kinds pass through */
 export function convertParams(
   params: ProjectParams,
   paramDefs: ParamDef[],
@@ -39,8 +87,9 @@ export function convertParams(
   if (from === to) return params
   const converted = { ...params }
   for (const def of paramDefs) {
-    if (def.unitType === 'length' && converted[def.key] !== undefined) {
-      converted[def.key] = convertValue(converted[def.key], 'length', from, to)
+    const value = converted[def.key]
+    if (isNumberParam(def) && def.unitType === 'length' && typeof value === 'number') {
+      converted[def.key] = convertValue(value, 'length', from, to)
     }
   }
   return converted
@@ -48,27 +97,27 @@ export function convertParams(
 
 /** Scale a ParamDef's min/max/step for the current unit system.
  *  ParamDefs are authored in mm — this converts to the display unit. */
-export function scaleParamDef(def: ParamDef, unit: UnitSystem): ParamDef {
+export function scaleParamDef(def: NumberParamDef, unit: UnitSystem): NumberParamDef {
   if (def.unitType !== 'length' || unit === 'mm') return def
-  const factor = MM_TO[unit]
+  const mmPer = MM_PER[unit]
   return {
     ...def,
-    min: def.min * factor,
-    max: def.max * factor,
-    step: def.step * factor,
+    min: def.min / mmPer,
+    max: def.max / mmPer,
+    step: def.step / mmPer,
   }
 }
 
 /** Factor to multiply scene coordinates by when exporting STL (slicer expects mm) */
 export function stlScaleFactor(unit: UnitSystem): number {
   // Scene is in the working unit. STL expects mm.
-  // mm → 1, cm → 10
-  return 1 / MM_TO[unit]
+  // mm → 1, cm → 10, in → 25.4
+  return MM_PER[unit]
 }
 
 /** Factor to multiply scene coordinates by when exporting GLB (glTF expects meters) */
 export function glbScaleFactor(unit: UnitSystem): number {
   // Scene is in the working unit. glTF expects meters.
-  // mm → 0.001, cm → 0.01
-  return (1 / MM_TO[unit]) * 0.001
+  // mm → 0.001, cm → 0.01, in → 0.0254
+  return MM_PER[unit] * 0.001
 }
@@ -0,0 +1,87 @@
+import { projects, type ProjectParams } from '../projects'
+import type { CameraPose, NumberParamDef, ParamValue } from '../types'
+import { convertParams, scaleParamDef, UNIT_SYSTEMS, type UnitSystem } from './units'
+import { coerceParamValue, isNumberParam } from './params'
+
+/**
+ * The part of a design that's shared through the URL hash: the active project, its
+ * params (in `unit`), and the view. Part edits and other projects stay local.
+ */
+export interface UrlState {
+  activeProjectId: string
+  unit: UnitSystem
+  camera: CameraPose | null
+  params: ProjectParams
+}
+
+/** Short, stable number formatting so hashes stay compact and don't churn on float noise */
+function formatNumber(v: number, digits = 4): string {
+  return String(Number(v.toFixed(digits)))
+}
+
+/** Text form of a value: booleans as 1/0 and colors as bare hex, so neither needs escaping */
+function formatValue(value: ParamValue): string {
+  if (typeof value === 'number') return formatNumber(value)
+  if (typeof value === 'boolean') return value ? '1' : '0'
+  return value.replace(/^#/, '')
+}
+
+/**
+ * Encode as `p=<project>&u=<unit>&v=<camera>&<param>=<value>…`. Only params that differ
+ * from the project's defaults are written, so a link for an untouched design stays short.
+ */
+export function encodeUrlState(state: UrlState): string {
+  const project = projects.find((p) => p.id === state.activeProjectId)
+  const search = new URLSearchParams()
+  search.set('p', state.activeProjectId)
+  if (state.unit !== 'mm') search.set('u', state.unit)
+  if (state.camera) {
+    search.set('v', [...state.camera.position, ...state.camera.target].map((n) => formatNumber(n, 2)).join(','))
+  }
+  if (project) {
+    const defaults = convertParams(project.defaultParams, project.paramDefs, 'mm', state.unit)
+    for (const def of project.paramDefs) {
+      const value = state.params[def.key]
+      if (value === undefined) continue
+      const text = formatValue(value)
+      const fallback = defaults[def.key]
+      if (fallback === undefined || text !== formatValue(fallback)) search.set(def.key, text)
+    }
+  }
+  // Commas are safe in a fragment; leaving them unescaped keeps the camera readable
+  return search.toString().replace(/%2C/g, ',')
+}
+
+/** Pull a param value into its def's range */
+function clampParam(def: NumberParamDef, value: number): number {
+  return Math.min(def.max, Math.max(def.min, value))
+}
+
+function readCamera(text: string | null): CameraPose | null {
+  const values = text?.split(',').map(Number)
+  if (!values || values.length !== 6 || !values.every(Number.isFinite)) return null
+  return { position: [values[0], values[1], values[2]], target: [values[3], values[4], values[5]] }
+}
+
+/**
+ * Decode a URL hash (with or without the leading #). Returns null when it doesn't name a
+ * known project. Unknown keys are ignored and out-of-range values are clamped to the
+ * ParamDef limits, so hand-edited or stale links still open something sensible.
+ */
+export function decodeUrlState(hash: string): UrlState | null {
+  const search = new URLSearchParams(hash.replace(/^#/, ''))
+  const project = projects.find((p) => p.id === search.get('p'))
+  if (!project) return null
+
+  const unit = UNIT_SYSTEMS.includes(search.get('u') as UnitSystem) ? (search.get('u') as UnitSystem) : 'mm'
+  const params = convertParams(project.defaultParams, project.paramDefs, 'mm', unit)
+  for (const def of project.paramDefs) {
+    const raw = search.get(def.key)
+    if (raw === null) continue
+    const value = coerceParamValue(def, raw)
+    if (value === undefined) continue
+    params[def.key] = isNumberParam(def) && typeof value === 'number' ? clampParam(scaleParamDef(def, unit), value) : value
+  }
+
+  return { activeProjectId: project.id, unit, camera: readCamera(search.get('v')), params }
+}
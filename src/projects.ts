@@ -1,5 +1,7 @@
 import { lazy, type ComponentType } from 'react'
-import type { ParamDef, ProjectHandle } from './types'
+import type { ParamCondition, ParamConstraint, ParamDef, ParamValue, ProjectHandle, PartState } from './types'
+import { INFILL_CONSTRAINTS, INFILL_DEFAULT_PARAMS, INFILL_PARAM_DEFS, infillToggleParamDef } from './lib/infill'
+import { LATTICE_DEFAULT_PARAMS, LATTICE_PARAM_DEFS, latticeToggleParamDef } from './lib/lattice'
 
 // Reference image imports
 import paralettesFront from '../examples/paralettes/front-view.png'
@@ -11,7 +13,7 @@ import wavyTop from '../examples/project_lid_holder/analysis_top.png'
 import wavyPerspective from '../examples/project_lid_holder/analysis_perspective.png'
 
 export interface ProjectParams {
-  [key: string]: number
+  [key: string]: ParamValue
 }
 
 export interface ReferenceImage {
@@ -19,6 +21,28 @@ export interface ReferenceImage {
   label: string
 }
 
+/** A named set of param values shipped with a project (in mm), laid over its defaultParams */
+export interface ProjectPreset {
+  name: string
+  params: Partial<ProjectParams>
+}
+
+/** A part that can opt into the shared infill generator */
+export interface InfillPart {
+  id: string
+  label: string
+  /** Boolean param that switches infill on for this part. Omit for parts that are always infill. */
+  toggleKey?: string
+}
+
+/** A solid part that can be hollowed and filled with a 3D lattice */
+export interface LatticePart {
+  id: string
+  label: string
+  /** Boolean param that switches the part between solid and lattice */
+  toggleKey: string
+}
+
 export interface Project {
   id: string
   name: string
@@ -28,15 +52,74 @@ export interface Project {
     onParamsChange: (p: ProjectParams) => void
     onSelectionChange?: (ids: Set<string>) => void
     handleRef?: React.MutableRefObject<ProjectHandle | null>
+    partState?: PartState
+    onPartStateChange?: (state: PartState) => void
+    /** Called with a message while some geometry can't be built, and null once it can */
+    onBuildError?: (error: string | null) => void
   }>>>
   defaultParams: ProjectParams
   paramDefs: ParamDef[]
+  /** Inequalities between params that keep the geometry buildable */
+  constraints?: ParamConstraint[]
   partLabel: string
   referenceImages?: ReferenceImage[]
+  /** Built-in presets, listed before the user's own */
+  presets?: ProjectPreset[]
+  infillParts?: InfillPart[]
+  latticeParts?: LatticePart[]
+}
+
+/** Show a shared group's settings only while at least one of its toggles is on */
+function whileAnyOn(defs: ParamDef[], toggleKeys: string[]): ParamDef[] {
+  if (toggleKeys.length === 0) return defs
+  const anyOn: ParamCondition = { any: toggleKeys.map((key) => ({ key, is: [true] })) }
+  return defs.map((def) => ({ ...def, visibleWhen: [anyOn, ...(def.visibleWhen ?? [])] }))
+}
+
+/** Append the shared Infill param group to projects that declare infill parts */
+function withInfill(project: Project): Project {
+  if (!project.infillParts?.length) return project
+  const toggles = project.infillParts.filter((p) => p.toggleKey)
+  const toggleDefaults: ProjectParams = {}
+  for (const p of toggles) toggleDefaults[p.toggleKey!] = false
+  // Parts without a toggle are always filled, so the settings always apply
+  const alwaysFilled = toggles.length < project.infillParts.length
+  return {
+    ...project,
+    defaultParams: { ...INFILL_DEFAULT_PARAMS, ...toggleDefaults, ...project.defaultParams },
+    paramDefs: [
+      ...project.paramDefs,
+      ...toggles.map((p) => infillToggleParamDef(p.toggleKey!, p.label)),
+      ...(alwaysFilled ? INFILL_PARAM_DEFS : whileAnyOn(INFILL_PARAM_DEFS, toggles.map((p) => p.toggleKey!))),
+    ],
+    constraints: [...(project.constraints ?? []), ...INFILL_CONSTRAINTS],
+  }
+}
+
+/** Append the shared Lattice param group to projects that declare lattice parts */
+function withLattice(project: Project): Project {
+  if (!project.latticeParts?.length) return project
+  const toggleDefaults: ProjectParams = {}
+  for (const p of project.latticeParts) toggleDefaults[p.toggleKey] = false
+  // Infill wins over a lattice on the same part, so the lattice toggle is moot while it's on
+  const toggleDef = (p: LatticePart): ParamDef => {
+    const def = latticeToggleParamDef(p.toggleKey, p.label)
+    const infillKey = project.infillParts?.find((i) => i.id === p.id)?.toggleKey
+    return infillKey ? { ...def, enabledWhen: [{ key: infillKey, is: [false] }] } : def
+  }
+  return {
+    ...project,
+    defaultParams: { ...LATTICE_DEFAULT_PARAMS, ...toggleDefaults, ...project.defaultParams },
+    paramDefs: [
+      ...project.paramDefs,
+      ...project.latticeParts.map(toggleDef),
+      ...whileAnyOn(LATTICE_PARAM_DEFS, project.latticeParts.map((p) => p.toggleKey)),
+    ],
+  }
 }
 
 // All defaultParams are authored in mm. 1 Three.js unit = 1 mm.
-export const projects: Project[] = [
+const projectDefs: Project[] = [
   {
     id: 'wavy-structure',
     name: 'Wavy Structure',
@@ -51,17 +134,29 @@ export const projects: Project[] = [
       waveAvg: 12.5,
       waveA: 3.5,
       waveB: 4,
-      color: 0xe8e8e8,
+      color: '#e8e8e8',
+      // A lattice that fits the thin default base
+      latticeCellSize: 4,
+      latticeStrut: 0.8,
+      shellThickness: 0.5,
     },
     paramDefs: [
       { key: 'baseWidth', label: 'Base Width', min: 10, max: 80, step: 1, group: 'Dimensions', unitType: 'length' },
       { key: 'baseDepth', label: 'Base Depth', min: 10, max: 80, step: 1, group: 'Dimensions', unitType: 'length' },
       { key: 'baseHeight', label: 'Base Height', min: 0.5, max: 5, step: 0.1, group: 'Dimensions', unitType: 'length' },
       { key: 'finCount', label: 'Fin Count', min: 2, max: 12, step: 1, group: 'Counts & Spacing', unitType: 'count' },
-      { key: 'finThickness', label: 'Fin Thickness', min: 0.2, max: 3, step: 0.1, group: 'Counts & Spacing', unitType: 'length' },
+      { key: 'finThickness', label: 'Fin Thickness', min: 0.2, max: 3, step: 0.1, group: 'Counts & Spacing', unitType: 'length', printedWall: true },
       { key: 'waveAvg', label: 'Wave Average Height', min: 5, max: 30, step: 0.5, group: 'Wave Profile', unitType: 'length' },
       { key: 'waveA', label: 'Wave Amplitude A', min: 0, max: 10, step: 0.1, group: 'Wave Profile', unitType: 'length' },
       { key: 'waveB', label: 'Wave Amplitude B', min: 0, max: 10, step: 0.1, group: 'Wave Profile', unitType: 'length' },
+      { key: 'color', label: 'Color', kind: 'color', group: 'Appearance' },
+    ],
+    // The cavity inside the shell has to be thicker than a strut (see generateLattice)
+    constraints: [
+      {
+        key: 'shellThickness', op: '<', other: 'baseHeight', factor: 0.5, minus: { key: 'latticeStrut', factor: 0.5 },
+        message: 'Shell is too thick to hollow the base around the struts',
+      },
     ],
     partLabel: 'Part',
     referenceImages: [
@@ -70,6 +165,12 @@ export const projects: Project[] = [
       { src: wavyTop, label: 'Top' },
       { src: wavyPerspective, label: 'Perspective' },
     ],
+    presets: [
+      { name: 'Dense fins', params: { finCount: 10, finThickness: 0.7 } },
+      { name: 'Tall waves', params: { waveAvg: 20, waveA: 6, waveB: 6 } },
+    ],
+    infillParts: [{ id: 'base', label: 'Base Plate', toggleKey: 'baseInfill' }],
+    latticeParts: [{ id: 'base', label: 'Base Plate', toggleKey: 'baseLattice' }],
   },
   {
     id: 'paralette',
@@ -92,16 +193,39 @@ export const projects: Project[] = [
       { key: 'barThickness', label: 'Bar Thickness', min: 3, max: 40, step: 0.5, group: 'Triangle', unitType: 'length' },
       { key: 'depth', label: 'Depth', min: 5, max: 80, step: 1, group: 'Triangle', unitType: 'length' },
       { key: 'gripDiameter', label: 'Inner Radius (Grip Hole)', min: 2, max: 60, step: 0.5, group: 'Top Circle', unitType: 'length' },
-      { key: 'discRadius', label: 'Outer Radius (Disc)', min: 5, max: 80, step: 0.5, group: 'Top Circle', unitType: 'length' },
+      // The disc's wall around the grip hole is half a bar thick unless the user types their own
+      {
+        key: 'discRadius', label: 'Outer Radius (Disc)', min: 5, max: 80, step: 0.5, group: 'Top Circle', unitType: 'length',
+        expression: 'gripDiameter / 2 + barThickness / 2',
+      },
       { key: 'footRadius', label: 'Foot Radius', min: 1, max: 20, step: 0.5, group: 'Feet', unitType: 'length' },
       { key: 'footHeight', label: 'Foot Height', min: 1, max: 16, step: 0.5, group: 'Feet', unitType: 'length' },
     ],
+    constraints: [
+      { key: 'discRadius', op: '>', other: 'gripDiameter', factor: 0.5, message: 'Disc must be larger than the grip hole' },
+      {
+        key: 'shellThickness', op: '<', other: 'depth', factor: 0.5, minus: { key: 'latticeStrut', factor: 0.5 },
+        message: 'Shell is too thick to hollow the frame around the struts',
+      },
+    ],
     partLabel: 'Part',
     referenceImages: [
       { src: paralettesFront, label: 'Front View' },
       { src: paralettesSide, label: 'Side View' },
       { src: paralettesThreeQuarter, label: 'Three-Quarter View' },
     ],
+    presets: [
+      {
+        name: 'Small travel',
+        params: { baseWidth: 80, triangleHeight: 90, barThickness: 12, depth: 14, gripDiameter: 26, footRadius: 6, footHeight: 4 },
+      },
+      {
+        name: 'Heavy duty',
+        params: { baseWidth: 140, triangleHeight: 150, barThickness: 20, depth: 28, gripDiameter: 34, footRadius: 10, footHeight: 7 },
+      },
+    ],
+    infillParts: [{ id: 'web', label: 'Frame Web', toggleKey: 'frameInfill' }],
+    latticeParts: [{ id: 'frame', label: 'Frame', toggleKey: 'frameLattice' }],
   },
   {
     id: 'triangle-infill',
@@ -113,34 +237,29 @@ export const projects: Project[] = [
       triangleHeight: 60,
       wallThickness: 3,
       depth: 10,
-      fillPattern: 1,
-      patternOrigin: 0,
+      fillPattern: 'honeycomb',
+      patternOrigin: 'bottom',
       cellSize: 6,
       infillWallThickness: 0.8,
     },
     paramDefs: [
       { key: 'baseWidth', label: 'Base Width', min: 20, max: 100, step: 1, group: 'Triangle', unitType: 'length' },
       { key: 'triangleHeight', label: 'Height', min: 20, max: 120, step: 1, group: 'Triangle', unitType: 'length' },
-      { key: 'wallThickness', label: 'Wall Thickness', min: 1, max: 10, step: 0.5, group: 'Triangle', unitType: 'length' },
+      { key: 'wallThickness', label: 'Wall Thickness', min: 1, max: 10, step: 0.5, group: 'Triangle', unitType: 'length', printedWall: true },
       { key: 'depth', label: 'Depth', min: 2, max: 30, step: 1, group: 'Triangle', unitType: 'length' },
-      {
-        key: 'fillPattern', label: 'Fill Pattern', min: 0, max: 2, step: 1, group: 'Infill', unitType: 'count',
-        options: [
-          { value: 0, label: 'None' },
-          { value: 1, label: 'Honeycomb' },
-          { value: 2, label: 'Triangle' },
-        ],
-      },
-      {
-        key: 'patternOrigin', label: 'Pattern Origin', min: 0, max: 1, step: 1, group: 'Infill', unitType: 'count',
-        options: [
-          { value: 0, label: 'From Bottom' },
-          { value: 1, label: 'From Top' },
-        ],
-      },
-      { key: 'cellSize', label: 'Cell Size', min: 3, max: 20, step: 0.5, group: 'Infill', unitType: 'length' },
-      { key: 'infillWallThickness', label: 'Infill Wall Thickness', min: 0.2, max: 3, step: 0.1, group: 'Infill', unitType: 'length' },
+    ],
+    // A wall under a quarter of the smaller dimension always leaves an inner hole
+    constraints: [
+      { key: 'wallThickness', op: '<', other: 'baseWidth', factor: 0.25, message: 'Wall is too thick for the base width' },
+      { key: 'wallThickness', op: '<', other: 'triangleHeight', factor: 0.25, message: 'Wall is too thick for the height' },
     ],
     partLabel: 'Part',
+    presets: [
+      { name: 'Fine honeycomb', params: { cellSize: 4, infillWallThickness: 0.6 } },
+      { name: 'Coarse triangle', params: { fillPattern: 'triangle', cellSize: 10, infillWallThickness: 1.2 } },
+    ],
+    infillParts: [{ id: 'infill', label: 'Infill' }],
   },
 ]
+
+export const projects: Project[] = projectDefs.map(withInfill).map(withLattice)
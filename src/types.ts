@@ -8,6 +8,12 @@ export interface PartOverrides {
   bevelSegments: number
 }
 
+/** A project's part edits in a form that outlives the component: overrides plus deleted part ids */
+export interface PartState {
+  overrides: Record<string, PartOverrides>
+  deleted: string[]
+}
+
 export interface PartBaseDimensions {
   x: number
   y: number
@@ -22,17 +28,89 @@ export interface ProjectHandle {
   updatePartOverrides: (ids: Set<string>, partial: Partial<PartOverrides>) => void
   getAllPartOverrides: () => Record<string, PartOverrides>
   getPartBaseDimensions: (id: string) => PartBaseDimensions | null
+  getPartState: () => PartState
+}
+
+export type LightingMode = 'default' | 'edge' | 'studio' | 'dramatic'
+
+export interface CameraPose {
+  position: [number, number, number]
+  target: [number, number, number]
 }
 
 export type UnitType = 'length' | 'angle' | 'count' | 'ratio'
 
-export interface ParamDef {
+/** A param's value: numbers for sliders, booleans, '#rrggbb' colors, and strings for enums and text */
+export type ParamValue = number | boolean | string
+
+/**
+ * A test on another param's value: it must be one of `is` and none of `not`.
+ * `any` holds when at least one of its conditions does.
+ */
+export type ParamCondition =
+  | { key: string; is?: ParamValue[]; not?: ParamValue[] }
+  | { any: ParamCondition[] }
+
+interface ParamDefBase {
   key: string
   label: string
+  group: string
+  /** Hide the control unless all of these hold */
+  visibleWhen?: ParamCondition[]
+  /** Show the control but disable it unless all of these hold */
+  enabledWhen?: ParamCondition[]
+}
+
+/** A slider (or, with `options`, a numeric choice). `kind` may be left out for numbers. */
+export interface NumberParamDef extends ParamDefBase {
+  kind?: 'number'
   min: number
   max: number
   step: number
-  group: string
   unitType: UnitType
   options?: { value: number; label: string }[]
+  /** Compute the value from other params instead of showing a slider (constants in mm) */
+  expression?: string
+  /** A wall, fin or strut thickness, which printability analysis checks against the nozzle */
+  printedWall?: boolean
+}
+
+export interface BooleanParamDef extends ParamDefBase {
+  kind: 'boolean'
+}
+
+/** Values are '#rrggbb' */
+export interface ColorParamDef extends ParamDefBase {
+  kind: 'color'
+}
+
+export interface EnumParamDef extends ParamDefBase {
+  kind: 'enum'
+  options: { value: string; label: string }[]
+  /** Options that only exist at runtime (e.g. imported tiles), listed after `options` */
+  dynamicOptions?: () => { value: string; label: string }[]
+}
+
+export interface StringParamDef extends ParamDefBase {
+  kind: 'string'
+  maxLength?: number
+  placeholder?: string
+}
+
+export type ParamDef = NumberParamDef | BooleanParamDef | ColorParamDef | EnumParamDef | StringParamDef
+
+/**
+ * An inequality between params of the same unit type: `key op other * factor`, less
+ * `minus.key * minus.factor` when given. Keeping the bound built from params (rather
+ * than constants) makes it unit-independent.
+ */
+export interface ParamConstraint {
+  key: string
+  op: '<' | '<=' | '>' | '>='
+  other: string
+  /** Defaults to 1 */
+  factor?: number
+  /** A third param taken off the bound; its factor defaults to 1 */
+  minus?: { key: string; factor?: number }
+  message: string
 }
@@ -0,0 +1,19 @@
+import { runGeometryJob, serializeGeometry, type GeometryRequest, type GeometryResponse } from '../lib/geometry-jobs'
+
+// One job at a time: the client never posts a new request before the previous reply,
+// and cancels a stale build by terminating this worker.
+self.onmessage = (e: MessageEvent<GeometryRequest>) => {
+  const { id, job } = e.data
+  try {
+    const geo = runGeometryJob(job)
+    if (!geo) {
+      self.postMessage({ id, geometry: null } satisfies GeometryResponse)
+      return
+    }
+    const { data, transfer } = serializeGeometry(geo)
+    geo.dispose()
+    self.postMessage({ id, geometry: data } satisfies GeometryResponse, { transfer })
+  } catch (err) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : String(err) } satisfies GeometryResponse)
+  }
+}